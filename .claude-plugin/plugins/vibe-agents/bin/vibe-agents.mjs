@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+/**
+ * 💻 Vibe Agents CLI launcher
+ * Исходники на TypeScript загружаются через tsx из зависимостей пакета,
+ * поэтому CLI не зависит от установленных у пользователя npx и tsx
+ */
+
+import { register } from 'tsx/esm/api';
+
+register();
+await import('../src/cli.ts');
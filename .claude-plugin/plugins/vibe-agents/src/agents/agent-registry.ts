@@ -0,0 +1,193 @@
+/**
+ * 🗂️ Agent Registry
+ * Единый источник правды об агентах: определения, маршруты намерений, компетенции
+ */
+
+import { existsSync } from 'node:fs';
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { TaskEither, tryCatch, right as rightTE } from 'fp-ts/lib/TaskEither';
+import { Either, left, right, isLeft } from 'fp-ts/lib/Either';
+import { AgentDefinition, AgentSchema } from './agent-schema';
+import { BUILTIN_AGENTS } from './builtin-agents';
+import { definitionFromFrontmatter, FrontmatterValue, parseFrontmatter } from './frontmatter';
+
+export interface AgentRegistry {
+  register: (definition: unknown) => Either<Error, AgentDefinition>;
+  unregister: (agentId: string) => void;
+  get: (agentId: string) => AgentDefinition | undefined;
+  has: (agentId: string) => boolean;
+  list: () => AgentDefinition[];
+  size: () => number;
+  agentForIntent: (intent: string) => string | undefined;
+  getRoutingMap: () => Record<string, string>;
+  setRoute: (intent: string, agentId: string) => void;
+  removeRoute: (intent: string) => void;
+  getCapabilities: (agentId: string) => string[];
+  addCapability: (agentId: string, capability: string) => void;
+  removeCapability: (agentId: string, capability: string) => void;
+  loadFromDirectory: (dir: string) => TaskEither<Error, AgentDefinition[]>;
+}
+
+export const createAgentRegistry = (definitions: AgentDefinition[] = []): AgentRegistry => {
+  const agents = new Map<string, AgentDefinition>();
+  const routes = new Map<string, string>();
+
+  const store = (agent: AgentDefinition) => {
+    agents.set(agent.id, agent);
+    for (const intent of agent.intents) {
+      // Намерение принадлежит одному агенту: прежний владелец его теряет
+      const previous = routes.get(intent);
+      if (previous && previous !== agent.id) {
+        const owner = agents.get(previous);
+        if (owner) {
+          agents.set(previous, { ...owner, intents: owner.intents.filter(i => i !== intent) });
+        }
+      }
+      routes.set(intent, agent.id);
+    }
+  };
+
+  const register = (definition: unknown): Either<Error, AgentDefinition> => {
+    const parsed = AgentSchema.safeParse(definition);
+
+    if (!parsed.success) {
+      return left(new Error('Invalid agent definition: ' + parsed.error.message));
+    }
+
+    store(parsed.data);
+    return right(parsed.data);
+  };
+
+  for (const definition of definitions) {
+    const registered = register(definition);
+    if (isLeft(registered)) {
+      throw registered.left;
+    }
+  }
+
+  const update = (agentId: string, fn: (agent: AgentDefinition) => AgentDefinition) => {
+    const agent = agents.get(agentId);
+    if (agent) {
+      agents.set(agentId, fn(agent));
+    }
+  };
+
+  return {
+    register,
+
+    unregister: (agentId: string) => {
+      agents.delete(agentId);
+      for (const [intent, routed] of routes) {
+        if (routed === agentId) {
+          routes.delete(intent);
+        }
+      }
+    },
+
+    get: (agentId: string) => agents.get(agentId),
+
+    has: (agentId: string) => agents.has(agentId),
+
+    list: () => [...agents.values()],
+
+    size: () => agents.size,
+
+    agentForIntent: (intent: string) => routes.get(intent),
+
+    getRoutingMap: () => Object.fromEntries(routes),
+
+    setRoute: (intent: string, agentId: string) => {
+      const previous = routes.get(intent);
+      if (previous) {
+        update(previous, agent => ({ ...agent, intents: agent.intents.filter(i => i !== intent) }));
+      }
+
+      routes.set(intent, agentId);
+      update(agentId, agent => ({
+        ...agent,
+        intents: agent.intents.includes(intent) ? agent.intents : [...agent.intents, intent]
+      }));
+    },
+
+    removeRoute: (intent: string) => {
+      const agentId = routes.get(intent);
+      routes.delete(intent);
+      if (agentId) {
+        update(agentId, agent => ({ ...agent, intents: agent.intents.filter(i => i !== intent) }));
+      }
+    },
+
+    getCapabilities: (agentId: string) => agents.get(agentId)?.competencies ?? [],
+
+    addCapability: (agentId: string, capability: string) => {
+      update(agentId, agent => ({
+        ...agent,
+        competencies: agent.competencies.includes(capability)
+          ? agent.competencies
+          : [...agent.competencies, capability]
+      }));
+    },
+
+    removeCapability: (agentId: string, capability: string) => {
+      update(agentId, agent => ({
+        ...agent,
+        competencies: agent.competencies.filter(c => c !== capability)
+      }));
+    },
+
+    loadFromDirectory: (dir: string) => {
+      return tryCatch(
+        async () => {
+          const discovered = await discoverAgentFiles(dir);
+
+          return discovered.map(({ file, frontmatter }) => {
+            const existing = agents.get(String(frontmatter.agent_id ?? frontmatter.name));
+            const registered = register(definitionFromFrontmatter(frontmatter, existing));
+
+            if (isLeft(registered)) {
+              throw new Error(`${file}: ${registered.left.message}`);
+            }
+
+            return registered.right;
+          });
+        },
+        (error) => error instanceof Error ? error : new Error('Agent discovery error: ' + error)
+      );
+    }
+  };
+};
+
+const discoverAgentFiles = async (
+  dir: string
+): Promise<Array<{ file: string; frontmatter: Record<string, FrontmatterValue> }>> => {
+  const files = (await readdir(dir)).filter(file => file.endsWith('.md')).sort();
+  const result: Array<{ file: string; frontmatter: Record<string, FrontmatterValue> }> = [];
+
+  for (const file of files) {
+    const frontmatter = parseFrontmatter(await readFile(join(dir, file), 'utf-8'));
+
+    // Файлы без frontmatter (README и т.п.) не являются агентами
+    if (frontmatter && (frontmatter.agent_id || frontmatter.name)) {
+      result.push({ file, frontmatter });
+    }
+  }
+
+  return result;
+};
+
+export const PROJECT_AGENTS_DIR = join('.claude', 'agents');
+
+/**
+ * Агенты проекта из .claude/agents дополняют встроенных и переопределяют их поля;
+ * проект без этой директории ничего не добавляет
+ */
+export const setupProjectAgents = (
+  dir: string,
+  registry: AgentRegistry = agentRegistry
+): TaskEither<Error, AgentDefinition[]> => {
+  const agentsDir = join(dir, PROJECT_AGENTS_DIR);
+  return existsSync(agentsDir) ? registry.loadFromDirectory(agentsDir) : rightTE([]);
+};
+
+export const agentRegistry = createAgentRegistry(BUILTIN_AGENTS);
@@ -0,0 +1,18 @@
+/**
+ * 📋 Agent Schema
+ * Zod-схема определения агента
+ */
+
+import { z } from 'zod';
+
+export const AgentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  competencies: z.array(z.string()),
+  model: z.enum(['inherit', 'sonnet', 'opus', 'haiku']),
+  proactively: z.boolean().default(true),
+  intents: z.array(z.string()).default([])
+});
+
+export type AgentDefinition = z.infer<typeof AgentSchema>;
@@ -0,0 +1,37 @@
+/**
+ * 🐝 Built-in Agents
+ * 21 агент роя Vibee: определения поставляются файлами agents/*.md плагина
+ */
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { AgentDefinition, AgentSchema } from './agent-schema';
+import { definitionFromFrontmatter, parseFrontmatter } from './frontmatter';
+
+// Те же файлы Claude Code подключает как субагентов плагина
+export const BUILTIN_AGENTS_DIR = fileURLToPath(new URL('../../agents/', import.meta.url));
+
+/**
+ * Файлы читаются синхронно: реестр агентов нужен NLU и маршрутизации сразу при импорте
+ */
+export const loadBuiltinAgents = (dir: string = BUILTIN_AGENTS_DIR): AgentDefinition[] => {
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.md'))
+    .sort()
+    .flatMap(file => {
+      const frontmatter = parseFrontmatter(readFileSync(join(dir, file), 'utf-8'));
+      if (!frontmatter || !(frontmatter.agent_id || frontmatter.name)) {
+        return [];
+      }
+
+      const parsed = AgentSchema.safeParse(definitionFromFrontmatter(frontmatter));
+      if (!parsed.success) {
+        throw new Error(`${file}: Invalid agent definition: ${parsed.error.message}`);
+      }
+
+      return [parsed.data];
+    });
+};
+
+export const BUILTIN_AGENTS: AgentDefinition[] = loadBuiltinAgents();
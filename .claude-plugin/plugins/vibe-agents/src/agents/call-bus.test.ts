@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isLeft, isRight } from 'fp-ts/lib/Either';
+import { left, right } from 'fp-ts/lib/TaskEither';
+import { AgentCallMatrix } from '../config/agent-call-matrix';
+import { createTracer } from '../tracing/tracer';
+import { AgentCallRequest, CallBusOptions, createCallBus, isAgentCallError } from './call-bus';
+
+const matrix: AgentCallMatrix = {
+  'vibe-lead': { canCall: ['vibe-coder'], priority: 'high', description: '' },
+  'vibe-coder': { canCall: ['vibe-tester', 'vibe-lead'], priority: 'medium', description: '' },
+  'vibe-tester': { canCall: ['vibe-coder', 'vibe-spec'], priority: 'medium', description: '' },
+  'vibe-spec': { canCall: ['vibe-critic'], priority: 'medium', description: '' }
+};
+
+const busWith = (execute: CallBusOptions['execute'], extra: Partial<CallBusOptions> = {}) => {
+  return createCallBus({ execute, matrix, tracer: createTracer(), ...extra });
+};
+
+const errorOf = async (result: Promise<unknown>) => {
+  const settled = await result as { _tag: string; left?: unknown };
+  assert.equal(settled._tag, 'Left');
+  assert.ok(isAgentCallError(settled.left));
+  return settled.left;
+};
+
+describe('createCallBus', () => {
+  it('executes an allowed call and records it', async () => {
+    const requests: AgentCallRequest[] = [];
+    const bus = busWith(request => {
+      requests.push(request);
+      return right('done');
+    });
+
+    const result = await bus.callerFor('vibe-lead', 'task-1')('vibe-coder', 'implement', { expectedOutput: 'code' })();
+
+    assert.ok(isRight(result));
+    assert.equal(result.right.output, 'done');
+    assert.deepEqual(result.right.chain, ['vibe-lead', 'vibe-coder']);
+    assert.equal(result.right.depth, 1);
+    assert.equal(requests[0].call.context.priority, 'high');
+    assert.deepEqual(bus.calls('task-1').map(c => c.callId), [result.right.callId]);
+    assert.deepEqual(bus.calls('task-2'), []);
+  });
+
+  it('rejects calls the matrix does not allow', async () => {
+    const bus = busWith(() => right('done'));
+    const error = await errorOf(bus.callerFor('vibe-lead', 'task-1')('vibe-tester', 'test')());
+
+    assert.equal(error.kind, 'not-allowed');
+  });
+
+  it('rejects unknown agents', async () => {
+    const bus = busWith(() => right('done'));
+    const error = await errorOf(bus.callerFor('vibe-lead', 'task-1')('vibe-unknown', 'anything')());
+
+    assert.equal(error.kind, 'unknown-agent');
+  });
+
+  it('detects cycles in nested calls', async () => {
+    const bus = busWith(request => () => request.callAgent('vibe-lead', 'back to lead')());
+    const error = await errorOf(bus.callerFor('vibe-lead', 'task-1')('vibe-coder', 'implement')());
+
+    // Ошибка вложенного вызова становится ошибкой внешнего
+    assert.equal(error.kind, 'failed');
+    assert.match(error.message, /cycle/);
+  });
+
+  it('limits the call depth', async () => {
+    const next: Record<string, string> = { 'vibe-coder': 'vibe-tester', 'vibe-tester': 'vibe-spec', 'vibe-spec': 'vibe-critic' };
+    const depths: number[] = [];
+    const bus = busWith(request => {
+      depths.push(request.depth);
+      const target = next[request.call.targetAgentId];
+      return target ? () => request.callAgent(target, 'go deeper')() : right('leaf');
+    }, { maxDepth: 2 });
+
+    const error = await errorOf(bus.callerFor('vibe-lead', 'task-1')('vibe-coder', 'implement')());
+
+    assert.deepEqual(depths, [1, 2]);
+    assert.match(error.message, /depth limit/);
+  });
+
+  it('fails a call that exceeds its timeout', async () => {
+    const bus = busWith(() => () => new Promise(resolve => setTimeout(() => resolve({ _tag: 'Right', right: 'late' }), 200)));
+    const error = await errorOf(bus.callerFor('vibe-lead', 'task-1')('vibe-coder', 'slow', { timeout: 10 })());
+
+    assert.equal(error.kind, 'timeout');
+  });
+
+  it('reports executor failures', async () => {
+    const bus = busWith(() => left(new Error('agent crashed')));
+    const result = await bus.callerFor('vibe-lead', 'task-1')('vibe-coder', 'implement')();
+
+    assert.ok(isLeft(result));
+    assert.equal(result.left.kind, 'failed');
+    assert.equal(result.left.message, 'agent crashed');
+    assert.deepEqual(bus.calls(), []);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * 📞 Agent Call Bus
+ * Sub-calls between agents with allow-list, depth limit and cycle detection
+ */
+
+import { TaskEither, left, tryCatch } from 'fp-ts/lib/TaskEither';
+import { Either, isLeft, left as leftE, right as rightE } from 'fp-ts/lib/Either';
+import { agentRegistry, AgentRegistry } from './agent-registry';
+import { AGENT_CALL_MATRIX, AgentCallMatrix, CallPriority, canCallAgent } from '../config/agent-call-matrix';
+import { Tracer, tracer as defaultTracer } from '../tracing/tracer';
+
+export const DEFAULT_MAX_CALL_DEPTH = 3;
+
+export interface CallContext {
+  sourceAgentId: string;
+  sourceTaskId: string;
+  dependencies?: string[];
+  priority: CallPriority;
+  sharedState?: Record<string, any>;
+}
+
+export interface AgentCall {
+  targetAgentId: string;
+  task: string;
+  context: CallContext;
+  expectedOutput: string;
+  timeout?: number;
+}
+
+export interface AgentCallResult {
+  callId: string;
+  targetAgentId: string;
+  sourceAgentId: string;
+  sourceTaskId: string;
+  depth: number;
+  // Цепочка агентов от корневого шага до вызванного
+  chain: string[];
+  output: any;
+  durationMs: number;
+}
+
+export type AgentCallErrorKind = 'unknown-agent' | 'not-allowed' | 'max-depth' | 'cycle' | 'timeout' | 'failed';
+
+export interface AgentCallError extends Error {
+  kind: AgentCallErrorKind;
+  sourceAgentId: string;
+  targetAgentId: string;
+  chain: string[];
+}
+
+export interface CallOptions {
+  expectedOutput?: string;
+  timeout?: number;
+  dependencies?: string[];
+  priority?: CallPriority;
+  sharedState?: Record<string, any>;
+}
+
+// Вызов от имени конкретного агента: источник и задача уже подставлены
+export type CallAgent = (
+  targetAgentId: string,
+  task: string,
+  options?: CallOptions
+) => TaskEither<AgentCallError, AgentCallResult>;
+
+export interface AgentCallRequest {
+  callId: string;
+  call: AgentCall;
+  depth: number;
+  chain: string[];
+  // Вложенные вызовы вызванного агента проходят через ту же шину
+  callAgent: CallAgent;
+}
+
+export interface CallBusOptions {
+  execute: (request: AgentCallRequest) => TaskEither<Error, any>;
+  registry?: AgentRegistry;
+  matrix?: AgentCallMatrix;
+  maxDepth?: number;
+  tracer?: Tracer;
+}
+
+export interface CallBus {
+  call: (call: AgentCall, chain?: string[]) => TaskEither<AgentCallError, AgentCallResult>;
+  callerFor: (sourceAgentId: string, sourceTaskId: string, chain?: string[]) => CallAgent;
+  canCall: (sourceAgentId: string, targetAgentId: string) => boolean;
+  calls: (sourceTaskId?: string) => AgentCallResult[];
+}
+
+const callError = (
+  kind: AgentCallErrorKind,
+  call: AgentCall,
+  chain: string[],
+  message: string
+): AgentCallError => {
+  return Object.assign(new Error(message), {
+    kind,
+    sourceAgentId: call.context.sourceAgentId,
+    targetAgentId: call.targetAgentId,
+    chain
+  });
+};
+
+export const isAgentCallError = (error: unknown): error is AgentCallError => {
+  return error instanceof Error && 'kind' in error && 'targetAgentId' in error && 'chain' in error;
+};
+
+export const createCallBus = (options: CallBusOptions): CallBus => {
+  const registry = options.registry ?? agentRegistry;
+  const matrix = options.matrix ?? AGENT_CALL_MATRIX;
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_CALL_DEPTH;
+  const tracer = options.tracer ?? defaultTracer;
+  const history: AgentCallResult[] = [];
+  let sequence = 0;
+
+  const validate = (call: AgentCall, chain: string[]): Either<AgentCallError, void> => {
+    const { sourceAgentId } = call.context;
+    const target = call.targetAgentId;
+
+    if (!registry.has(target)) {
+      return leftE(callError('unknown-agent', call, chain, 'Unknown agent: ' + target));
+    }
+
+    if (!canCallAgent(sourceAgentId, target, matrix)) {
+      return leftE(callError('not-allowed', call, chain, `${sourceAgentId} is not allowed to call ${target}`));
+    }
+
+    if (chain.includes(target)) {
+      return leftE(callError('cycle', call, chain, `Call cycle detected: ${[...chain, target].join(' → ')}`));
+    }
+
+    // Глубина — число вызовов в цепочке; корневой шаг имеет глубину 0
+    if (chain.length > maxDepth) {
+      return leftE(callError('max-depth', call, chain, `Call depth limit exceeded (max ${maxDepth}): ${[...chain, target].join(' → ')}`));
+    }
+
+    return rightE(undefined);
+  };
+
+  const call = (agentCall: AgentCall, chain: string[] = [agentCall.context.sourceAgentId]) => {
+    const attributes = {
+      'call.source': agentCall.context.sourceAgentId,
+      'call.target': agentCall.targetAgentId,
+      'call.depth': chain.length,
+      'call.priority': agentCall.context.priority,
+      'task.id': agentCall.context.sourceTaskId
+    };
+
+    // Отклонённый вызов тоже попадает в trace
+    const validated = validate(agentCall, chain);
+    if (isLeft(validated)) {
+      tracer.startSpan('agent.call', { ...attributes, 'call.error': validated.left.kind }).end(validated.left);
+      return left<AgentCallError, AgentCallResult>(validated.left);
+    }
+
+    const callId = `${agentCall.context.sourceTaskId}:call-${++sequence}`;
+    const calleeChain = [...chain, agentCall.targetAgentId];
+    const request: AgentCallRequest = {
+      callId,
+      call: agentCall,
+      depth: chain.length,
+      chain: calleeChain,
+      callAgent: callerFor(agentCall.targetAgentId, agentCall.context.sourceTaskId, calleeChain)
+    };
+
+    return tracer.trace(
+      'agent.call',
+      { ...attributes, 'call.id': callId },
+      tryCatch(
+        async () => {
+          const startedAt = Date.now();
+          const executed = await withTimeout(options.execute(request), agentCall.timeout)();
+
+          if (isLeft(executed)) {
+            throw executed.left;
+          }
+
+          const result: AgentCallResult = {
+            callId,
+            targetAgentId: agentCall.targetAgentId,
+            sourceAgentId: agentCall.context.sourceAgentId,
+            sourceTaskId: agentCall.context.sourceTaskId,
+            depth: request.depth,
+            chain: calleeChain,
+            output: executed.right,
+            durationMs: Date.now() - startedAt
+          };
+
+          history.push(result);
+          return result;
+        },
+        // Ошибки вложенных вызовов становятся ошибкой этого вызова (kind 'failed')
+        (error) => callError(
+          error instanceof CallTimeout ? 'timeout' : 'failed',
+          agentCall,
+          chain,
+          error instanceof Error ? error.message : String(error)
+        )
+      )
+    );
+  };
+
+  const callerFor = (sourceAgentId: string, sourceTaskId: string, chain: string[] = [sourceAgentId]): CallAgent => {
+    return (targetAgentId, task, callOptions = {}) =>
+      call(
+        {
+          targetAgentId,
+          task,
+          expectedOutput: callOptions.expectedOutput ?? '',
+          timeout: callOptions.timeout,
+          context: {
+            sourceAgentId,
+            sourceTaskId,
+            dependencies: callOptions.dependencies,
+            priority: callOptions.priority ?? matrix[sourceAgentId]?.priority ?? 'medium',
+            sharedState: callOptions.sharedState
+          }
+        },
+        chain
+      );
+  };
+
+  return {
+    call,
+    callerFor,
+    canCall: (sourceAgentId, targetAgentId) => canCallAgent(sourceAgentId, targetAgentId, matrix),
+    calls: (sourceTaskId?: string) =>
+      sourceTaskId ? history.filter(c => c.sourceTaskId === sourceTaskId) : [...history]
+  };
+};
+
+class CallTimeout extends Error {}
+
+const withTimeout = <A>(task: TaskEither<Error, A>, timeoutMs?: number): TaskEither<Error, A> => {
+  if (!timeoutMs) {
+    return task;
+  }
+
+  return () => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<Either<Error, A>>((resolve) => {
+      timer = setTimeout(() => resolve(leftE(new CallTimeout(`Agent call timed out after ${timeoutMs}ms`))), timeoutMs);
+    });
+
+    return Promise.race([task(), timeout]).finally(() => clearTimeout(timer));
+  };
+};
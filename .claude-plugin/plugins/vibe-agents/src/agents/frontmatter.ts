@@ -0,0 +1,126 @@
+/**
+ * 📄 Frontmatter Parser
+ * Минимальный разбор YAML frontmatter из markdown-файлов агентов
+ */
+
+import { AgentDefinition } from './agent-schema';
+
+export type FrontmatterValue = string | boolean | number | null | string[];
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---/;
+
+/**
+ * Поддерживает подмножество YAML, используемое в агентах:
+ * `key: value`, `key: [a, b]`, списки через `- item` и комментарии `#`
+ */
+export const parseFrontmatter = (markdown: string): Record<string, FrontmatterValue> | null => {
+  const match = markdown.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const result: Record<string, FrontmatterValue> = {};
+  let currentListKey: string | null = null;
+
+  for (const rawLine of match[1].split(/\r?\n/)) {
+    const line = stripComment(rawLine);
+    if (line.trim().length === 0) {
+      continue;
+    }
+
+    const listItem = line.match(/^\s+-\s+(.*)$/);
+    if (listItem && currentListKey) {
+      (result[currentListKey] as string[]).push(unquote(listItem[1].trim()));
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+    if (!pair) {
+      continue;
+    }
+
+    const [, key, value] = pair;
+    if (value.length === 0) {
+      result[key] = [];
+      currentListKey = key;
+      continue;
+    }
+
+    currentListKey = null;
+    result[key] = parseScalar(value.trim());
+  }
+
+  return result;
+};
+
+const stripComment = (line: string): string => {
+  // Комментарий начинается с ` #` вне кавычек
+  const index = line.search(/\s#(?=(?:[^"']|"[^"]*"|'[^']*')*$)/);
+  return index >= 0 ? line.slice(0, index) : line;
+};
+
+const parseScalar = (value: string): FrontmatterValue => {
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value
+      .slice(1, -1)
+      .split(',')
+      .map(item => unquote(item.trim()))
+      .filter(item => item.length > 0);
+  }
+
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+
+  if (value === 'null' || value === '~') {
+    return null;
+  }
+
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+
+  return unquote(value);
+};
+
+const unquote = (value: string): string => {
+  return value.replace(/^(['"])(.*)\1$/, '$2');
+};
+
+export const asStringList = (value: FrontmatterValue | undefined): string[] | undefined => {
+  if (Array.isArray(value)) {
+    return value;
+  }
+
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+  }
+
+  return undefined;
+};
+
+/**
+ * Поля frontmatter переопределяют известное определение агента,
+ * отсутствующие поля берутся из него
+ */
+export const definitionFromFrontmatter = (
+  frontmatter: Record<string, FrontmatterValue>,
+  existing?: AgentDefinition
+): unknown => {
+  const id = frontmatter.agent_id ?? frontmatter.name;
+  const domain = typeof frontmatter.vibe_domain === 'string' ? [frontmatter.vibe_domain] : undefined;
+
+  return {
+    id,
+    name: frontmatter.name ?? existing?.name ?? id,
+    description: frontmatter.description ?? existing?.description ?? '',
+    competencies:
+      asStringList(frontmatter.vibe_competencies ?? frontmatter.competencies) ??
+      existing?.competencies ??
+      domain ??
+      [],
+    model: frontmatter.model ?? existing?.model ?? 'inherit',
+    proactively: frontmatter.proactively ?? frontmatter.vibe_autonomous ?? existing?.proactively,
+    intents: asStringList(frontmatter.vibe_intents) ?? existing?.intents
+  };
+};
@@ -0,0 +1,10 @@
+/**
+ * 🗂️ Agents
+ * Registry and definitions of the Vibe swarm
+ */
+
+export * from './agent-schema';
+export * from './builtin-agents';
+export * from './frontmatter';
+export * from './agent-registry';
+export * from './call-bus';
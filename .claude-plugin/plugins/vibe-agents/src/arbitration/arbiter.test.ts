@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isLeft, isRight } from 'fp-ts/lib/Either';
+import { NLUParsing } from '../nlu/types';
+import { createTracer } from '../tracing/tracer';
+import { createArbiter } from './arbiter';
+import { createDurationHistory } from './duration-history';
+import { ArbiterOptions, ArbitrationPriority } from './types';
+
+const parsing = (intent: string): NLUParsing => ({
+  originalText: intent,
+  intent: { name: intent, confidence: 0.9, description: '' },
+  entities: [],
+  suggestedAction: '',
+  confidence: 0.9
+});
+
+// Фиксированное время: оценки ожидания не зависят от скорости прогона
+const arbiterWith = (options: ArbiterOptions = {}) => {
+  return createArbiter({
+    capacity: 1,
+    history: createDurationHistory({ defaultDurationMs: 1000 }),
+    tracer: createTracer(),
+    now: () => 0,
+    ...options
+  });
+};
+
+const submit = (arbiter: ReturnType<typeof createArbiter>, taskId: string, priority: ArbitrationPriority) => {
+  return arbiter.arbitrate({ taskId, priority, parsing: parsing('write-tests') })();
+};
+
+describe('createArbiter', () => {
+  it('schedules a task on free agents and queues the next one', async () => {
+    const arbiter = arbiterWith();
+
+    const first = await submit(arbiter, 't1', 'medium');
+    const second = await submit(arbiter, 't2', 'medium');
+
+    assert.ok(isRight(first) && isRight(second));
+    assert.equal(first.right.status, 'scheduled');
+    assert.equal(first.right.selectedAgents[0].agentId, 'vibe-tester');
+    assert.equal(second.right.status, 'queued');
+    assert.equal(second.right.resources.allocations[0].queuePosition, 1);
+    // Ожидание освобождения агента плюс собственное выполнение
+    assert.equal(second.right.estimatedTime, 2000);
+  });
+
+  it('preempts lower-priority tasks and notifies about it', async () => {
+    const preempted: Array<[string, string]> = [];
+    const arbiter = arbiterWith({ onPreempt: (taskId, byTaskId) => preempted.push([taskId, byTaskId]) });
+
+    await submit(arbiter, 'low', 'low');
+    const urgent = await submit(arbiter, 'urgent', 'critical');
+
+    assert.ok(isRight(urgent));
+    assert.equal(urgent.right.status, 'scheduled');
+    assert.deepEqual(urgent.right.resources.preempted, ['low']);
+    assert.deepEqual(preempted, [['low', 'urgent']]);
+    assert.deepEqual(
+      arbiter.tasks().map(t => [t.taskId, t.state, t.preemptions]),
+      [['urgent', 'running', 0], ['low', 'queued', 1]]
+    );
+  });
+
+  it('does not preempt tasks of the same priority', async () => {
+    const arbiter = arbiterWith();
+
+    await submit(arbiter, 't1', 'high');
+    const second = await submit(arbiter, 't2', 'high');
+
+    assert.ok(isRight(second));
+    assert.equal(second.right.status, 'queued');
+    assert.deepEqual(second.right.resources.preempted, []);
+  });
+
+  it('promotes queued tasks by priority on release', async () => {
+    const arbiter = arbiterWith();
+
+    await submit(arbiter, 'running', 'critical');
+    await submit(arbiter, 'low', 'low');
+    await submit(arbiter, 'high', 'high');
+
+    assert.deepEqual(arbiter.release('running'), ['high']);
+    assert.deepEqual(arbiter.tasks('queued').map(t => t.taskId), ['low']);
+    assert.deepEqual(arbiter.release('unknown'), []);
+  });
+
+  it('reports whether the deadline is met', async () => {
+    const arbiter = arbiterWith({ capacity: 3 });
+
+    const tight = await arbiter.arbitrate({ taskId: 't1', priority: 'medium', deadline: new Date(500), parsing: parsing('write-tests') })();
+    const loose = await arbiter.arbitrate({ taskId: 't2', priority: 'medium', deadline: new Date(60_000), parsing: parsing('write-tests') })();
+
+    assert.ok(isRight(tight) && isRight(loose));
+    assert.equal(tight.right.deadlineMet, false);
+    assert.equal(loose.right.deadlineMet, true);
+  });
+
+  it('rejects duplicate tasks, passed deadlines and unknown intents', async () => {
+    const arbiter = arbiterWith();
+    await submit(arbiter, 't1', 'medium');
+
+    const results = [
+      await submit(arbiter, 't1', 'medium'),
+      await arbiter.arbitrate({ taskId: 't2', priority: 'medium', deadline: new Date(-1), parsing: parsing('write-tests') })(),
+      await arbiter.arbitrate({ taskId: 't3', priority: 'medium', parsing: parsing('unknown-intent') })()
+    ];
+
+    assert.deepEqual(results.map(r => isLeft(r) ? r.left.kind : r.right.status), ['duplicate-task', 'deadline-passed', 'no-agents']);
+  });
+});
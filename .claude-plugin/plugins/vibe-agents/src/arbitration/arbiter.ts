@@ -0,0 +1,279 @@
+/**
+ * 👑 Arbiter
+ * Выбор агентов, стратегия и распределение агентов между конкурирующими задачами
+ */
+
+import { randomUUID } from 'node:crypto';
+import { TaskEither } from 'fp-ts/lib/TaskEither';
+import { Either, isLeft, left, right } from 'fp-ts/lib/Either';
+import { Tracer, tracer as defaultTracer } from '../tracing/tracer';
+import { durationHistory } from './duration-history';
+import { priorityRank, selectAgents } from './selection';
+import { chooseStrategy } from './strategy';
+import {
+  AgentAllocation,
+  ArbitratedTask,
+  Arbiter,
+  ArbiterOptions,
+  ArbitrationError,
+  ArbitrationErrorKind,
+  ArbitrationRequest,
+  ArbitrationResult,
+  TaskState
+} from './types';
+
+// Одновременных задач на агента по умолчанию (max_concurrent_tasks в ARBITRATION.md)
+export const DEFAULT_AGENT_CAPACITY = 3;
+
+interface TaskEntry extends ArbitratedTask {
+  // Порядок поступления: при равном приоритете и дедлайне раньше пришедшая задача первая
+  order: number;
+  deadlineMs?: number;
+  startedAtMs?: number;
+  executionMs: number;
+}
+
+const arbitrationError = (kind: ArbitrationErrorKind, taskId: string, message: string): ArbitrationError => {
+  return Object.assign(new Error(message), { kind, taskId });
+};
+
+export const isArbitrationError = (error: unknown): error is ArbitrationError => {
+  return error instanceof Error && 'kind' in error && 'taskId' in error;
+};
+
+/**
+ * Приоритет выше → раньше; при равном — ближе дедлайн, затем раньше пришла
+ */
+const precedes = (a: TaskEntry, b: TaskEntry): number => {
+  return priorityRank(b.priority) - priorityRank(a.priority)
+    || (a.deadlineMs ?? Infinity) - (b.deadlineMs ?? Infinity)
+    || a.order - b.order;
+};
+
+export const createArbiter = (options: ArbiterOptions = {}): Arbiter => {
+  const history = options.history ?? durationHistory;
+  const tracer: Tracer = options.tracer ?? defaultTracer;
+  const now = options.now ?? Date.now;
+  const entries = new Map<string, TaskEntry>();
+  let sequence = 0;
+
+  const capacityOf = (agentId: string): number => {
+    return typeof options.capacity === 'number'
+      ? options.capacity
+      : options.capacity?.[agentId] ?? DEFAULT_AGENT_CAPACITY;
+  };
+
+  const running = () => [...entries.values()].filter(e => e.state === 'running');
+  const holders = (agentId: string) => running().filter(e => e.agents.includes(agentId));
+  const isFree = (agentId: string) => holders(agentId).length < capacityOf(agentId);
+
+  const remainingMs = (entry: TaskEntry): number => {
+    return Math.max(0, (entry.startedAtMs ?? now()) + entry.executionMs - now());
+  };
+
+  const start = (entry: TaskEntry) => {
+    entry.state = 'running';
+    entry.startedAtMs = now();
+    entry.startedAt = new Date(entry.startedAtMs).toISOString();
+  };
+
+  /**
+   * Задачи, которые нужно вытеснить, чтобы освободить всех агентов запроса.
+   * Вытесняются только задачи с более низким приоритетом: сначала самые
+   * низкие, при равном — начатые позже (меньше потерянной работы).
+   * undefined — освободить агентов нельзя, задача встаёт в очередь
+   */
+  const findVictims = (agents: string[], priority: ArbitrationRequest['priority']): TaskEntry[] | undefined => {
+    const victims = new Set<TaskEntry>();
+
+    for (const agentId of agents) {
+      const remaining = holders(agentId).filter(e => !victims.has(e));
+      const needed = remaining.length - capacityOf(agentId) + 1;
+      if (needed <= 0) {
+        continue;
+      }
+
+      const candidates = remaining
+        .filter(e => priorityRank(e.priority) < priorityRank(priority))
+        .sort((a, b) => priorityRank(a.priority) - priorityRank(b.priority) || (b.startedAtMs ?? 0) - (a.startedAtMs ?? 0));
+
+      if (candidates.length < needed) {
+        return undefined;
+      }
+
+      candidates.slice(0, needed).forEach(e => victims.add(e));
+    }
+
+    return [...victims];
+  };
+
+  /**
+   * Ожидание агента для задачи из очереди: до ближайшего освобождения слота
+   * плюс выполнение задач, стоящих к нему раньше
+   */
+  const allocationFor = (entry: TaskEntry, agentId: string): AgentAllocation => {
+    const capacity = capacityOf(agentId);
+
+    if (entry.state === 'running') {
+      return { agentId, status: 'allocated', capacity, waitMs: 0 };
+    }
+
+    const busy = holders(agentId);
+    const ahead = [...entries.values()]
+      .filter(e => e.state === 'queued' && e !== entry && e.agents.includes(agentId) && precedes(e, entry) < 0);
+    const slotMs = busy.length >= capacity ? Math.min(...busy.map(remainingMs)) : 0;
+    const aheadMs = ahead.reduce((sum, e) => sum + e.executionMs, 0) / capacity;
+
+    return {
+      agentId,
+      status: 'queued',
+      capacity,
+      queuePosition: ahead.length + 1,
+      waitMs: Math.round(slotMs + aheadMs)
+    };
+  };
+
+  const snapshot = (entry: TaskEntry): ArbitratedTask => ({
+    taskId: entry.taskId,
+    priority: entry.priority,
+    state: entry.state,
+    agents: [...entry.agents],
+    deadline: entry.deadline,
+    estimatedTime: entry.estimatedTime,
+    enqueuedAt: entry.enqueuedAt,
+    startedAt: entry.startedAt,
+    preemptions: entry.preemptions
+  });
+
+  const decide = (request: ArbitrationRequest): Either<ArbitrationError, ArbitrationResult> => {
+    const taskId = request.taskId ?? randomUUID();
+    const arrivedAt = now();
+    const deadlineMs = request.deadline?.getTime();
+
+    if (entries.has(taskId)) {
+      return left(arbitrationError('duplicate-task', taskId, 'Task is already arbitrated: ' + taskId));
+    }
+
+    if (deadlineMs !== undefined && deadlineMs <= arrivedAt) {
+      return left(arbitrationError('deadline-passed', taskId, `Deadline ${request.deadline!.toISOString()} has already passed`));
+    }
+
+    const selected = selectAgents(request.parsing, request.priority, { ...options, history });
+    if (isLeft(selected)) {
+      return left(arbitrationError('no-agents', taskId, selected.left.message));
+    }
+
+    const selectedAgents = selected.right;
+    const agents = selectedAgents.map(s => s.agentId);
+    const entry: TaskEntry = {
+      taskId,
+      priority: request.priority,
+      state: 'queued',
+      agents,
+      deadline: request.deadline?.toISOString(),
+      deadlineMs,
+      estimatedTime: 0,
+      executionMs: 0,
+      enqueuedAt: new Date(arrivedAt).toISOString(),
+      preemptions: 0,
+      order: ++sequence
+    };
+
+    const victims = agents.every(isFree) ? [] : findVictims(agents, request.priority);
+
+    for (const victim of victims ?? []) {
+      victim.state = 'queued';
+      victim.startedAt = undefined;
+      victim.startedAtMs = undefined;
+      victim.preemptions++;
+    }
+
+    entries.set(taskId, entry);
+    if (victims) {
+      start(entry);
+    }
+
+    const allocations = agents.map(agentId => allocationFor(entry, agentId));
+    const waitMs = Math.max(0, ...allocations.map(a => a.waitMs));
+    const estimate = chooseStrategy(selectedAgents, {
+      priority: request.priority,
+      timeLeftMs: deadlineMs !== undefined ? deadlineMs - arrivedAt - waitMs : undefined
+    });
+
+    entry.executionMs = estimate.executionMs;
+    entry.estimatedTime = waitMs + estimate.executionMs;
+
+    // Вытесненные узнают об этом после того, как новая задача заняла агентов
+    for (const victim of victims ?? []) {
+      options.onPreempt?.(victim.taskId, taskId);
+    }
+
+    return right({
+      taskId,
+      priority: request.priority,
+      status: entry.state === 'running' ? 'scheduled' : 'queued',
+      selectedAgents,
+      executionOrder: estimate.executionOrder,
+      strategy: estimate.strategy,
+      estimatedTime: entry.estimatedTime,
+      resources: {
+        allocations,
+        preempted: (victims ?? []).map(v => v.taskId),
+        waitMs
+      },
+      deadline: entry.deadline,
+      deadlineMet: deadlineMs !== undefined ? arrivedAt + entry.estimatedTime <= deadlineMs : undefined
+    });
+  };
+
+  const arbitrate = (request: ArbitrationRequest): TaskEither<ArbitrationError, ArbitrationResult> => {
+    return tracer.trace(
+      'arbitration',
+      {
+        'task.id': request.taskId,
+        'arbitration.priority': request.priority,
+        'arbitration.deadline': request.deadline?.toISOString(),
+        'nlu.intent': request.parsing.intent.name
+      },
+      () => Promise.resolve(decide(request)),
+      result => ({
+        'task.id': result.taskId,
+        'arbitration.status': result.status,
+        'arbitration.strategy': result.strategy,
+        'arbitration.agents': result.selectedAgents.map(s => s.agentId).join(','),
+        'arbitration.estimated_ms': result.estimatedTime,
+        'arbitration.preempted': result.resources.preempted.length
+      })
+    );
+  };
+
+  const release = (taskId: string): string[] => {
+    if (!entries.delete(taskId)) {
+      return [];
+    }
+
+    // Освободившихся агентов получают задачи из очереди в порядке приоритета
+    const promoted: string[] = [];
+    const queue = [...entries.values()].filter(e => e.state === 'queued').sort(precedes);
+
+    for (const entry of queue) {
+      if (entry.agents.every(isFree)) {
+        start(entry);
+        promoted.push(entry.taskId);
+      }
+    }
+
+    return promoted;
+  };
+
+  return {
+    arbitrate,
+    release,
+    tasks: (state?: TaskState) =>
+      [...entries.values()]
+        .filter(e => !state || e.state === state)
+        .sort(precedes)
+        .map(snapshot),
+    history
+  };
+};
@@ -0,0 +1,134 @@
+/**
+ * ⏱️ Duration History
+ * Длительность последних выполнений агентов для оценки времени задачи
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { z } from 'zod';
+import { DurationHistory, DurationHistoryOptions, DurationStats } from './types';
+
+export const DEFAULT_HISTORY_WINDOW = 20;
+
+// Оценка для агента, который ещё ни разу не выполнялся
+export const DEFAULT_AGENT_DURATION_MS = 60_000;
+
+export const DEFAULT_HISTORY_FILE = join(homedir(), '.vibe-agents', 'durations.json');
+
+const DEFAULT_SAVE_DELAY_MS = 1000;
+
+const SamplesSchema = z.record(z.array(z.number().nonnegative()));
+
+export const createDurationHistory = (options: DurationHistoryOptions = {}): DurationHistory => {
+  const window = options.window ?? DEFAULT_HISTORY_WINDOW;
+  const defaultDurationMs = options.defaultDurationMs ?? DEFAULT_AGENT_DURATION_MS;
+  const saveDelayMs = options.saveDelayMs ?? DEFAULT_SAVE_DELAY_MS;
+  const samples = new Map<string, number[]>();
+  let loaded = false;
+  let timer: NodeJS.Timeout | undefined;
+  let writes: Promise<void> = Promise.resolve();
+
+  // Файл читается при первом обращении, а не при импорте модуля
+  const load = () => {
+    if (loaded || !options.filePath) {
+      return;
+    }
+    loaded = true;
+
+    for (const [agentId, recorded] of Object.entries(loadSamples(options.filePath))) {
+      samples.set(agentId, [...recorded, ...(samples.get(agentId) ?? [])].slice(-window));
+    }
+  };
+
+  const save = (): Promise<void> => {
+    clearTimeout(timer);
+    timer = undefined;
+
+    if (!options.filePath) {
+      return writes;
+    }
+
+    // Записи идут по одной; ошибка записи не влияет на историю в памяти
+    const filePath = options.filePath;
+    const content = JSON.stringify(Object.fromEntries(samples));
+    writes = writes.then(() => saveSamples(filePath, content)).catch(() => undefined);
+    return writes;
+  };
+
+  const persist = () => {
+    if (options.filePath && !timer) {
+      timer = setTimeout(() => void save(), saveDelayMs);
+      timer.unref();
+    }
+  };
+
+  const stats = (agentId: string): DurationStats => {
+    load();
+    const recorded = samples.get(agentId) ?? [];
+    const meanMs = recorded.length > 0
+      ? Math.round(recorded.reduce((sum, ms) => sum + ms, 0) / recorded.length)
+      : 0;
+
+    return {
+      agentId,
+      samples: recorded.length,
+      meanMs,
+      estimateMs: recorded.length > 0 ? meanMs : defaultDurationMs
+    };
+  };
+
+  return {
+    record: (agentId: string, durationMs: number) => {
+      if (!Number.isFinite(durationMs) || durationMs < 0) {
+        return;
+      }
+
+      load();
+      // Старые выполнения вытесняются: оценка следует за текущей скоростью агента
+      const recorded = [...(samples.get(agentId) ?? []), durationMs];
+      samples.set(agentId, recorded.slice(-window));
+      persist();
+    },
+
+    estimate: (agentId: string) => stats(agentId).estimateMs,
+
+    stats,
+
+    clear: () => {
+      loaded = true;
+      samples.clear();
+      persist();
+    },
+
+    flush: () => timer ? save() : writes
+  };
+};
+
+const loadSamples = (filePath: string): Record<string, number[]> => {
+  if (!existsSync(filePath)) {
+    return {};
+  }
+
+  try {
+    const parsed = SamplesSchema.safeParse(JSON.parse(readFileSync(filePath, 'utf-8')));
+    return parsed.success ? parsed.data : {};
+  } catch {
+    // Повреждённый файл истории не должен ломать оценку времени
+    return {};
+  }
+};
+
+const saveSamples = async (filePath: string, content: string): Promise<void> => {
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath + '.tmp', content, 'utf-8');
+  await rename(filePath + '.tmp', filePath);
+};
+
+// Общая история: task-pipeline записывает длительности завершённых шагов,
+// файл в домашней директории переносит её между запусками
+export const durationHistory = createDurationHistory({ filePath: DEFAULT_HISTORY_FILE });
+
+// Отложенная запись не держит процесс: недописанное сохраняется перед выходом
+process.once('beforeExit', () => void durationHistory.flush());
@@ -0,0 +1,10 @@
+/**
+ * 👑 Arbitration
+ * Multi-agent selection, execution strategy and agent allocation
+ */
+
+export * from './types';
+export * from './duration-history';
+export * from './selection';
+export * from './strategy';
+export * from './arbiter';
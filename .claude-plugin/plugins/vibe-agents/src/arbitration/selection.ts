@@ -0,0 +1,151 @@
+/**
+ * 🎯 Agent Selection
+ * NLUParsing → основной агент, агенты поддержки по непокрытым компетенциям и ревьюер
+ */
+
+import { Either, left, right } from 'fp-ts/lib/Either';
+import { agentRegistry, AgentRegistry } from '../agents/agent-registry';
+import { getAgentStats, getRequiredCapabilities } from '../nlu/agent-routing';
+import { DEFAULT_PLAN } from '../pipeline/task-pipeline';
+import { NLUParsing } from '../nlu/types';
+import { durationHistory } from './duration-history';
+import { AgentRole, AgentSelection, ArbitrationPriority, DurationHistory, SelectionOptions } from './types';
+
+export const PRIORITY_ORDER: ArbitrationPriority[] = ['low', 'medium', 'high', 'critical'];
+
+// Чем выше приоритет, тем больше агентов может получить задача
+export const PRIORITY_AGENT_LIMITS: Record<ArbitrationPriority, number> = {
+  low: 2,
+  medium: 3,
+  high: 4,
+  critical: 5
+};
+
+// Критичные задачи всегда проходят ревью
+export const CRITICAL_REVIEWER = 'vibe-critic';
+
+// Компетенции с меньшим весом не стоят отдельного агента
+const MIN_SUPPORT_WEIGHT = 0.3;
+
+// Порядок этапов берётся из плана /task; агенты вне плана — исполнители
+export const STAGE_ORDER = ['analysis', 'specification', 'planning', 'implementation', 'review', 'documentation'];
+const DEFAULT_STAGE = 'implementation';
+
+export const agentStage = (agentId: string): string => {
+  return DEFAULT_PLAN.steps.find(step => step.agentId === agentId)?.stage ?? DEFAULT_STAGE;
+};
+
+export const priorityRank = (priority: ArbitrationPriority): number => {
+  return PRIORITY_ORDER.indexOf(priority);
+};
+
+interface CapabilityTag {
+  tag: string;
+  weight: number;
+}
+
+const sameTag = (a: string, b: string): boolean => a.toLowerCase() === b.toLowerCase();
+
+const hasTag = (registry: AgentRegistry, agentId: string, tag: string): boolean => {
+  return registry.getCapabilities(agentId).some(c => sameTag(c, tag));
+};
+
+/**
+ * Доля веса требуемых компетенций, которую покрывает агент
+ */
+const coverage = (registry: AgentRegistry, agentId: string, required: CapabilityTag[]) => {
+  const matched = required.filter(r => hasTag(registry, agentId, r.tag));
+  const total = required.reduce((sum, r) => sum + r.weight, 0);
+  const score = total > 0 ? matched.reduce((sum, r) => sum + r.weight, 0) / total : 0;
+
+  return { score: Math.round(score * 1000) / 1000, matched: matched.map(m => m.tag) };
+};
+
+const successRate = (agentId: string): number => {
+  const stats = getAgentStats(agentId);
+  return (stats.successes + 1) / (stats.successes + stats.failures + 2);
+};
+
+export const selectAgents = (
+  parsing: NLUParsing,
+  priority: ArbitrationPriority,
+  options: SelectionOptions = {}
+): Either<Error, AgentSelection[]> => {
+  const registry = options.registry ?? agentRegistry;
+  const history: DurationHistory = options.history ?? durationHistory;
+  const limit = options.maxAgents ?? PRIORITY_AGENT_LIMITS[priority];
+  const required = getRequiredCapabilities(parsing.intent, parsing.entities);
+  const agents = registry.list().map(agent => agent.id);
+  const selected: AgentSelection[] = [];
+
+  const select = (agentId: string, role: AgentRole, reason: string) => {
+    const { score, matched } = coverage(registry, agentId, required);
+    selected.push({
+      agentId,
+      role,
+      stage: agentStage(agentId),
+      score,
+      matchedCapabilities: matched,
+      estimatedDurationMs: history.estimate(agentId),
+      reason
+    });
+  };
+
+  const isSelected = (agentId: string) => selected.some(s => s.agentId === agentId);
+
+  // Основной агент — маршрут намерения, иначе лучший по компетенциям
+  const routed = registry.agentForIntent(parsing.intent.name);
+  const primary = routed && registry.has(routed)
+    ? routed
+    : agents
+      .map(agentId => ({ agentId, score: coverage(registry, agentId, required).score }))
+      .filter(c => c.score > 0)
+      .sort((a, b) => b.score - a.score)[0]?.agentId;
+
+  if (!primary) {
+    return left(new Error('No agent can handle intent: ' + parsing.intent.name));
+  }
+
+  select(primary, 'primary', routed === primary ? `routes intent ${parsing.intent.name}` : 'best capability match');
+
+  // Дополнительные намерения из того же запроса получают своих агентов
+  for (const intent of parsing.additionalIntents ?? []) {
+    const agentId = registry.agentForIntent(intent.name);
+    if (agentId && registry.has(agentId) && !isSelected(agentId) && selected.length < limit) {
+      select(agentId, 'primary', `routes additional intent ${intent.name}`);
+    }
+  }
+
+  const needsReviewer = priority === 'critical' && registry.has(CRITICAL_REVIEWER) && !isSelected(CRITICAL_REVIEWER);
+  const supportLimit = limit - (needsReviewer ? 1 : 0);
+
+  // Поддержка: для каждой непокрытой компетенции — лучший агент, который ею владеет
+  const uncovered = required
+    .filter(r => r.weight >= MIN_SUPPORT_WEIGHT)
+    .sort((a, b) => b.weight - a.weight);
+
+  for (const { tag } of uncovered) {
+    if (selected.length >= supportLimit) {
+      break;
+    }
+
+    if (selected.some(s => hasTag(registry, s.agentId, tag))) {
+      continue;
+    }
+
+    const [best] = agents
+      .filter(agentId => !isSelected(agentId) && hasTag(registry, agentId, tag))
+      .map(agentId => ({ agentId, score: coverage(registry, agentId, required).score + successRate(agentId) * 0.01 }))
+      .sort((a, b) => b.score - a.score);
+
+    if (best) {
+      select(best.agentId, 'support', `covers ${tag}`);
+    }
+  }
+
+  if (needsReviewer) {
+    select(CRITICAL_REVIEWER, 'reviewer', 'critical priority requires review');
+  }
+
+  return right(selected);
+};
@@ -0,0 +1,97 @@
+/**
+ * 🧭 Execution Strategy
+ * Порядок запуска выбранных агентов: sequential, parallel или pipeline
+ */
+
+import { REVIEW_INSTRUCTIONS } from '../pipeline/review-loop';
+import { ExecutionPlan } from '../pipeline/types';
+import { STAGE_ORDER, priorityRank } from './selection';
+import { AgentSelection, ArbitrationPriority, ArbitrationResult, ExecutionOrder, ExecutionStrategy } from './types';
+
+export interface ExecutionEstimate {
+  strategy: ExecutionStrategy;
+  executionOrder: ExecutionOrder;
+  executionMs: number;
+}
+
+export interface StrategyContext {
+  priority: ArbitrationPriority;
+  // Сколько мс осталось до дедлайна с учётом ожидания в очереди
+  timeLeftMs?: number;
+}
+
+const stageRank = (stage: string): number => {
+  const rank = STAGE_ORDER.indexOf(stage);
+  return rank >= 0 ? rank : STAGE_ORDER.indexOf('implementation');
+};
+
+/**
+ * Каждая группа зависит от всех агентов предыдущей
+ */
+const chainGroups = (groups: string[][]): ExecutionOrder => {
+  const dependencies: Record<string, string[]> = {};
+  groups.forEach((group, index) => {
+    for (const agentId of group) {
+      dependencies[agentId] = index > 0 ? [...groups[index - 1]] : [];
+    }
+  });
+  return { groups, dependencies };
+};
+
+/**
+ * Группа длится столько, сколько её самый медленный агент
+ */
+export const estimateExecution = (groups: string[][], selections: AgentSelection[]): number => {
+  const duration = (agentId: string) => selections.find(s => s.agentId === agentId)?.estimatedDurationMs ?? 0;
+  return groups.reduce((total, group) => total + Math.max(0, ...group.map(duration)), 0);
+};
+
+/**
+ * Разные этапы (спецификация → реализация → ревью) — pipeline по этапам.
+ * Агенты одного этапа независимы: parallel для high/critical или когда
+ * последовательный запуск не успевает к дедлайну, иначе sequential
+ */
+export const chooseStrategy = (selections: AgentSelection[], context: StrategyContext): ExecutionEstimate => {
+  const build = (strategy: ExecutionStrategy, groups: string[][]): ExecutionEstimate => ({
+    strategy,
+    executionOrder: chainGroups(groups),
+    executionMs: estimateExecution(groups, selections)
+  });
+
+  if (selections.length === 1) {
+    return build('sequential', [[selections[0].agentId]]);
+  }
+
+  const ranks = [...new Set(selections.map(s => stageRank(s.stage)))].sort((a, b) => a - b);
+
+  if (ranks.length > 1) {
+    return build('pipeline', ranks.map(rank => selections.filter(s => stageRank(s.stage) === rank).map(s => s.agentId)));
+  }
+
+  const sequential = build('sequential', selections.map(s => [s.agentId]));
+  const urgent = priorityRank(context.priority) >= priorityRank('high');
+  const late = context.timeLeftMs !== undefined && sequential.executionMs > context.timeLeftMs;
+
+  return urgent || late ? build('parallel', [selections.map(s => s.agentId)]) : sequential;
+};
+
+/**
+ * План для runTaskPipeline: шаг на каждого выбранного агента с зависимостями из executionOrder
+ */
+export const toExecutionPlan = (result: ArbitrationResult): ExecutionPlan => {
+  const order = result.executionOrder.groups.flat();
+
+  return {
+    name: `arbitration:${result.strategy}`,
+    steps: order.map(agentId => {
+      const selection = result.selectedAgents.find(s => s.agentId === agentId)!;
+      return {
+        id: agentId,
+        agentId,
+        stage: selection.stage,
+        dependsOn: result.executionOrder.dependencies[agentId] ?? [],
+        instructions: selection.stage === 'review' ? REVIEW_INSTRUCTIONS : undefined
+      };
+    })
+  };
+};
@@ -0,0 +1,142 @@
+/**
+ * 🐝 Arbitration Type Definitions
+ */
+
+import { TaskEither } from 'fp-ts/lib/TaskEither';
+import { NLUParsing } from '../nlu/types';
+import { CallPriority } from '../config/agent-call-matrix';
+import { AgentRegistry } from '../agents/agent-registry';
+import { Tracer } from '../tracing/tracer';
+
+export type ArbitrationPriority = CallPriority;
+
+export type ExecutionStrategy = 'sequential' | 'parallel' | 'pipeline';
+
+export interface ArbitrationRequest {
+  parsing: NLUParsing;
+  priority: ArbitrationPriority;
+  deadline?: Date;
+  // Без идентификатора арбитр создаёт свой
+  taskId?: string;
+}
+
+export type AgentRole = 'primary' | 'support' | 'reviewer';
+
+export interface AgentSelection {
+  agentId: string;
+  role: AgentRole;
+  stage: string;
+  score: number;
+  matchedCapabilities: string[];
+  estimatedDurationMs: number;
+  reason: string;
+}
+
+export interface ExecutionOrder {
+  // Группы запускаются по очереди, агенты внутри группы — одновременно
+  groups: string[][];
+  dependencies: Record<string, string[]>;
+}
+
+export type AllocationStatus = 'allocated' | 'queued';
+
+export interface AgentAllocation {
+  agentId: string;
+  status: AllocationStatus;
+  capacity: number;
+  // Позиция в очереди к агенту, 1 — следующий
+  queuePosition?: number;
+  waitMs: number;
+}
+
+export interface ResourceAllocation {
+  allocations: AgentAllocation[];
+  // Задачи с более низким приоритетом, вытесненные этой задачей в очередь
+  preempted: string[];
+  waitMs: number;
+}
+
+export interface ArbitrationResult {
+  taskId: string;
+  priority: ArbitrationPriority;
+  status: 'scheduled' | 'queued';
+  selectedAgents: AgentSelection[];
+  executionOrder: ExecutionOrder;
+  strategy: ExecutionStrategy;
+  // Ожидание в очереди плюс выполнение, мс
+  estimatedTime: number;
+  resources: ResourceAllocation;
+  deadline?: string;
+  deadlineMet?: boolean;
+}
+
+export type ArbitrationErrorKind = 'no-agents' | 'deadline-passed' | 'duplicate-task';
+
+export interface ArbitrationError extends Error {
+  kind: ArbitrationErrorKind;
+  taskId: string;
+}
+
+export interface DurationStats {
+  agentId: string;
+  samples: number;
+  meanMs: number;
+  // Оценка для планирования: среднее по истории или значение по умолчанию
+  estimateMs: number;
+}
+
+export interface DurationHistory {
+  record: (agentId: string, durationMs: number) => void;
+  estimate: (agentId: string) => number;
+  stats: (agentId: string) => DurationStats;
+  clear: () => void;
+  // Записывает отложенные изменения в файл, не дожидаясь таймера
+  flush: () => Promise<void>;
+}
+
+export interface DurationHistoryOptions {
+  // Сколько последних выполнений агента учитывается
+  window?: number;
+  defaultDurationMs?: number;
+  // Файл истории: без него история живёт только в памяти процесса
+  filePath?: string;
+  // Изменения собираются и пишутся в файл одной записью после паузы
+  saveDelayMs?: number;
+}
+
+export interface SelectionOptions {
+  registry?: AgentRegistry;
+  history?: DurationHistory;
+  maxAgents?: number;
+}
+
+export type TaskState = 'running' | 'queued';
+
+export interface ArbitratedTask {
+  taskId: string;
+  priority: ArbitrationPriority;
+  state: TaskState;
+  agents: string[];
+  deadline?: string;
+  estimatedTime: number;
+  enqueuedAt: string;
+  startedAt?: string;
+  // Сколько раз задачу вытесняли более приоритетные
+  preemptions: number;
+}
+
+export interface ArbiterOptions extends SelectionOptions {
+  // Одновременных задач на агента: число для всех или по идентификатору
+  capacity?: number | Record<string, number>;
+  tracer?: Tracer;
+  now?: () => number;
+  onPreempt?: (taskId: string, byTaskId: string) => void;
+}
+
+export interface Arbiter {
+  arbitrate: (request: ArbitrationRequest) => TaskEither<ArbitrationError, ArbitrationResult>;
+  // Освобождает агентов задачи; возвращает задачи, запущенные из очереди
+  release: (taskId: string) => string[];
+  tasks: (state?: TaskState) => ArbitratedTask[];
+  history: DurationHistory;
+}
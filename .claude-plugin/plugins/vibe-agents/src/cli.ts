@@ -0,0 +1,296 @@
+/**
+ * 💻 Vibe Agents CLI
+ * vibe-agents <route|explain|run|resume|tasks|agents|intents> ["<text>"] [--json] [--offline]
+ */
+
+import { isLeft } from 'fp-ts/lib/Either';
+import { VibeAgentsPlugin } from './plugin';
+import { agentRegistry } from './agents/agent-registry';
+import { getCallableAgents } from './config/agent-call-matrix';
+import { createNLUService, nluService } from './nlu/nlu-service';
+import { getAllIntents, getCustomIntents, rankIntents } from './nlu/intent-recognition';
+import { extractEntities } from './nlu/entity-extraction';
+import { getBestAgent, rankAgents } from './nlu/agent-routing';
+import { formatNLUError } from './nlu/errors';
+import { detectLocale } from './nlu/locales';
+import { NLUService } from './nlu/types';
+import { TaskRecord } from './tasks/types';
+
+interface CLIOptions {
+  json: boolean;
+  offline: boolean;
+}
+
+// Результат команды: данные для --json и строки для терминала
+interface CommandOutput {
+  data: unknown;
+  lines: string[];
+  failed?: boolean;
+}
+
+interface CommandContext {
+  nlu: NLUService;
+  plugin: VibeAgentsPlugin;
+}
+
+type Command = (text: string, context: CommandContext) => Promise<CommandOutput>;
+
+const USAGE = [
+  'Usage: vibe-agents <command> ["<text>"] [--json] [--offline]',
+  '',
+  'Commands:',
+  '  route "<text>"    Intent, entities, agent and confidence',
+  '  explain "<text>"  Keywords and scores of every intent, agent ranking',
+  '  run "<text>"      Run the /task pipeline',
+  '  resume <taskId>   Continue a saved task from its last completed step',
+  '  tasks             Saved tasks and their status',
+  '  agents            Registered agents',
+  '  intents           Known intents and their agents',
+  '',
+  'Options:',
+  '  --json     Machine-readable output',
+  '  --offline  Rule-based NLU only, no LLM calls'
+];
+
+const percent = (value: number): string => `${Math.round(value * 100)}%`;
+
+const route: Command = async (text, { nlu }) => {
+  const parsed = await nlu.parseText(text)();
+
+  if (isLeft(parsed)) {
+    return {
+      data: { error: parsed.left.message, errorKind: parsed.left.kind },
+      lines: [formatNLUError(parsed.left, detectLocale(text))],
+      failed: true
+    };
+  }
+
+  const parsing = parsed.right;
+  const routed = await nlu.routeToAgent(parsing.intent, parsing.entities)();
+  const agentId = isLeft(routed) ? undefined : routed.right.agentId;
+
+  return {
+    data: {
+      intent: parsing.intent.name,
+      confidence: parsing.confidence,
+      source: parsing.source,
+      locale: parsing.locale,
+      agentId,
+      entities: parsing.entities,
+      additionalIntents: parsing.additionalIntents?.map(intent => intent.name) ?? []
+    },
+    lines: [
+      `Intent:     ${parsing.intent.name} (${percent(parsing.confidence)}, ${parsing.source ?? 'rules'})`,
+      `Agent:      ${agentId ?? '—'}`,
+      `Locale:     ${parsing.locale ?? detectLocale(text)}`,
+      `Entities:   ${parsing.entities.map(e => `${e.type}=${e.value}`).join(', ') || '—'}`,
+      ...(parsing.additionalIntents?.length
+        ? [`Also:       ${parsing.additionalIntents.map(intent => intent.name).join(', ')}`]
+        : [])
+    ],
+    failed: isLeft(routed)
+  };
+};
+
+/**
+ * Разбор без LLM: какие ключевые слова сработали, счёт каждого намерения
+ * и ранжирование агентов по компетенциям для лучшего из них
+ */
+const explain: Command = async (text) => {
+  const locale = detectLocale(text);
+  const ranked = rankIntents(text, locale);
+  const intents = [
+    ...ranked,
+    ...getAllIntents()
+      .filter(name => !ranked.some(c => c.name === name))
+      .map(name => ({ name, confidence: 0, score: 0, matchedKeywords: [] as string[] }))
+  ];
+
+  const [best] = ranked;
+  const entities = extractEntities(text, locale);
+  const agents = best ? rankAgents(best, entities) : [];
+  const routed = best ? getBestAgent(best, entities) ?? undefined : undefined;
+
+  return {
+    data: {
+      locale,
+      intents: intents.map(({ name, confidence, score, matchedKeywords }) => ({ name, confidence, score, matchedKeywords })),
+      entities,
+      route: routed,
+      agents
+    },
+    lines: [
+      `Locale: ${locale}`,
+      '',
+      'Intents:',
+      ...intents.map(c =>
+        `  ${c.name.padEnd(24)} score ${c.score.toFixed(2).padStart(5)}  confidence ${c.confidence.toFixed(3)}` +
+        (c.matchedKeywords.length ? `  [${c.matchedKeywords.join(', ')}]` : '')
+      ),
+      '',
+      `Entities: ${entities.map(e => `${e.type}=${e.value} (${percent(e.confidence)})`).join(', ') || '—'}`,
+      '',
+      best ? `Route: ${best.name} → ${routed ?? '—'}` : 'Route: no intent matched',
+      ...(agents.length ? ['', 'Agents by capability:'] : []),
+      ...agents.map(a =>
+        `  ${a.agentId.padEnd(24)} score ${a.score.toFixed(3)}  [${a.matchedCapabilities.join(', ')}]`
+      )
+    ],
+    failed: !best
+  };
+};
+
+const recordLines = (record: TaskRecord): string[] => {
+  const review = record.steps.find(step => step.review)?.review;
+
+  return [
+    `Task:   ${record.taskId} (${record.status}, attempt ${record.attempt})`,
+    `Text:   ${record.task}`,
+    `Route:  ${record.route ? `${record.route.intent} → ${record.route.agentId}` : '—'}`,
+    `Plan:   ${record.plan ?? '—'}`,
+    ...record.steps.map(step =>
+      `  ${step.stepId.padEnd(18)} ${step.agentId.padEnd(24)} ${step.status}` +
+      (step.error ? `  ${step.error}` : '')
+    ),
+    ...(review ? [`Review: ${review.stopReason} after ${review.iterations.length} iteration(s)`] : []),
+    ...(record.error ? [`Error:  ${record.userMessage ?? record.error}`] : [])
+  ];
+};
+
+// Пробный запуск (без исполнителя) — штатный результат CLI, а не ошибка
+const isSettled = (record: TaskRecord): boolean => {
+  return record.status === 'completed' || record.status === 'dry-run';
+};
+
+/**
+ * Задача идёт через менеджер задач: напечатанный taskId виден в tasks
+ * и годится для resume
+ */
+const run: Command = async (text, { plugin }) => {
+  const submitted = await plugin.submitTask(text)();
+  const finished = isLeft(submitted) ? submitted : await plugin.tasks.wait(submitted.right.taskId)();
+
+  if (isLeft(finished)) {
+    return { data: { error: finished.left.message }, lines: [`Error: ${finished.left.message}`], failed: true };
+  }
+
+  return {
+    data: finished.right,
+    lines: recordLines(finished.right),
+    failed: !isSettled(finished.right)
+  };
+};
+
+const resume: Command = async (taskId, { plugin }) => {
+  const resumed = await plugin.tasks.resume(taskId)();
+  const finished = isLeft(resumed) ? resumed : await plugin.tasks.wait(taskId)();
+
+  if (isLeft(finished)) {
+    return { data: { error: finished.left.message }, lines: [`Error: ${finished.left.message}`], failed: true };
+  }
+
+  return {
+    data: finished.right,
+    lines: recordLines(finished.right),
+    failed: !isSettled(finished.right)
+  };
+};
+
+const tasks: Command = async (_, { plugin }) => {
+  const list = await plugin.tasks.list()();
+
+  if (isLeft(list)) {
+    return { data: { error: list.left.message }, lines: [`Error: ${list.left.message}`], failed: true };
+  }
+
+  return {
+    data: list.right,
+    lines: list.right.map(record =>
+      `${record.taskId}  ${record.status.padEnd(9)}  ${record.updatedAt}  ${record.task}`
+    )
+  };
+};
+
+const agents: Command = async () => {
+  const list = agentRegistry.list();
+
+  return {
+    data: list.map(agent => ({ ...agent, canCall: getCallableAgents(agent.id) })),
+    lines: list.flatMap(agent => [
+      `${agent.id} — ${agent.name}`,
+      `  intents:      ${agent.intents.join(', ') || '—'}`,
+      `  competencies: ${agent.competencies.join(', ') || '—'}`,
+      `  can call:     ${getCallableAgents(agent.id).join(', ') || '—'}`
+    ])
+  };
+};
+
+const intents: Command = async () => {
+  const custom = getCustomIntents();
+  const list = getAllIntents().map(name => ({
+    name,
+    agentId: agentRegistry.agentForIntent(name),
+    custom: name in custom
+  }));
+
+  return {
+    data: list,
+    lines: list.map(intent =>
+      `${intent.name.padEnd(24)} → ${intent.agentId ?? '—'}${intent.custom ? ' (custom)' : ''}`
+    )
+  };
+};
+
+const COMMANDS: Record<string, { command: Command; needsText: boolean }> = {
+  route: { command: route, needsText: true },
+  explain: { command: explain, needsText: true },
+  run: { command: run, needsText: true },
+  resume: { command: resume, needsText: true },
+  tasks: { command: tasks, needsText: false },
+  agents: { command: agents, needsText: false },
+  intents: { command: intents, needsText: false }
+};
+
+const main = async (args: string[]): Promise<number> => {
+  const options: CLIOptions = {
+    json: args.includes('--json'),
+    offline: args.includes('--offline')
+  };
+  const [name, ...rest] = args.filter(arg => !arg.startsWith('--'));
+  const entry = name ? COMMANDS[name] : undefined;
+  const text = rest.join(' ').trim();
+
+  if (!entry || (entry.needsText && !text)) {
+    process.stderr.write(USAGE.join('\n') + '\n');
+    return name && !entry ? 2 : 1;
+  }
+
+  const nlu = options.offline ? createNLUService({ policy: 'rules-only' }) : nluService;
+  const plugin = new VibeAgentsPlugin({ nlu });
+
+  // Агенты из .claude/agents, намерения и маршруты из .vibe-agents.json текущей директории
+  const config = await plugin.loadProjectConfig()();
+  if (isLeft(config)) {
+    process.stderr.write(config.left.message + '\n');
+    return 1;
+  }
+
+  const output = await entry.command(text, { nlu, plugin });
+
+  process.stdout.write(
+    options.json
+      ? JSON.stringify(output.data, null, 2) + '\n'
+      : output.lines.join('\n') + '\n'
+  );
+
+  return output.failed ? 1 : 0;
+};
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
@@ -0,0 +1,130 @@
+/**
+ * 🔗 Agent Call Matrix
+ * Who may call whom — allow-list from AGENT_CALL_RULES.md
+ */
+
+export type CallPriority = 'low' | 'medium' | 'high' | 'critical';
+
+export interface AgentCallRule {
+  canCall: string[];
+  priority: CallPriority;
+  description: string;
+}
+
+export type AgentCallMatrix = Record<string, AgentCallRule>;
+
+export const AGENT_CALL_MATRIX: AgentCallMatrix = {
+  'vibe-lead': {
+    canCall: ['vibe-spec', 'vibe-tester', 'vibe-critic', 'vibe-coder', 'vibe-devops', 'vibe-sentry'],
+    priority: 'high',
+    description: 'Координатор всех агентов'
+  },
+
+  'vibe-spec': {
+    canCall: ['vibe-elizaos', 'vibe-devops', 'vibe-tester'],
+    priority: 'high',
+    description: 'Нужен для понимания требований'
+  },
+
+  'vibe-tester': {
+    canCall: ['vibe-spec', 'vibe-security'],
+    priority: 'high',
+    description: 'Проверяет спецификации и безопасность'
+  },
+
+  'vibe-critic': {
+    canCall: ['vibe-spec', 'vibe-tester', 'vibe-coder', 'vibe-devops', 'vibe-security'],
+    priority: 'critical',
+    description: 'Валидирует все результаты'
+  },
+
+  'vibe-coder': {
+    canCall: ['vibe-typescript', 'vibe-security', 'vibe-cicd', 'vibe-sentry'],
+    priority: 'high',
+    description: 'Разработчик - координирует реализацию'
+  },
+
+  'vibe-typescript': {
+    canCall: ['vibe-sentry'],
+    priority: 'medium',
+    description: 'Типизация и проверка'
+  },
+
+  'vibe-security': {
+    canCall: ['vibe-devops', 'vibe-sentry'],
+    priority: 'high',
+    description: 'Проверяет безопасность'
+  },
+
+  'vibe-devops': {
+    canCall: ['vibe-sentry', 'vibe-mcp'],
+    priority: 'high',
+    description: 'Инфраструктура и деплой'
+  },
+
+  'vibe-cicd': {
+    canCall: ['vibe-devops', 'vibe-sentry'],
+    priority: 'high',
+    description: 'CI/CD пайплайны'
+  },
+
+  'vibe-elizaos': {
+    canCall: ['vibe-spec', 'vibe-coder'],
+    priority: 'high',
+    description: 'Эксперт по ElizaOS'
+  },
+
+  'vibe-ai-llm': {
+    canCall: ['vibe-sentry', 'vibe-devops'],
+    priority: 'medium',
+    description: 'AI/ML интеграции'
+  },
+
+  'vibe-mcp': {
+    canCall: ['vibe-elizaos', 'vibe-sentry'],
+    priority: 'medium',
+    description: 'Model Context Protocol'
+  },
+
+  'vibe-sentry': {
+    canCall: [], // Мониторинг - не вызывает других
+    priority: 'high',
+    description: 'Центр мониторинга - получает вызовы от всех'
+  },
+
+  'vibe-langfuse': {
+    canCall: ['vibe-sentry'],
+    priority: 'medium',
+    description: 'Наблюдаемость LLM'
+  },
+
+  'vibe-tasker': {
+    canCall: ['vibe-lead'],
+    priority: 'medium',
+    description: 'Менеджер задач'
+  },
+
+  'vibe-roi': {
+    canCall: ['vibe-cicd', 'vibe-devops'],
+    priority: 'low',
+    description: 'Анализ ROI'
+  }
+};
+
+/**
+ * Агенты, которых нет в матрице, никого вызывать не могут
+ */
+export const canCallAgent = (
+  sourceAgentId: string,
+  targetAgentId: string,
+  matrix: AgentCallMatrix = AGENT_CALL_MATRIX
+): boolean => {
+  return matrix[sourceAgentId]?.canCall.includes(targetAgentId) ?? false;
+};
+
+export const getCallableAgents = (
+  sourceAgentId: string,
+  matrix: AgentCallMatrix = AGENT_CALL_MATRIX
+): string[] => {
+  return matrix[sourceAgentId]?.canCall ?? [];
+};
@@ -0,0 +1,7 @@
+/**
+ * ⚙️ Config
+ * Project-level configuration of the Vibe swarm
+ */
+
+export * from './project-config';
+export * from './agent-call-matrix';
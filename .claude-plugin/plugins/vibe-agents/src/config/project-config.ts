@@ -0,0 +1,263 @@
+/**
+ * ⚙️ Project Config
+ * Custom intents, entities, routes and capability tags from .vibe-agents.json
+ */
+
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { TaskEither, tryCatch, chain, fromEither } from 'fp-ts/lib/TaskEither';
+import { Either, left, right, map as mapE } from 'fp-ts/lib/Either';
+import { pipe } from 'fp-ts/lib/function';
+import { agentRegistry } from '../agents/agent-registry';
+import { BUILTIN_AGENTS } from '../agents/builtin-agents';
+import {
+  addCustomIntent,
+  getAllIntents,
+  getCustomIntents
+} from '../nlu/intent-recognition';
+import {
+  addCustomEntity,
+  getAllEntities,
+  getCustomEntities,
+  removeEntity
+} from '../nlu/entity-extraction';
+import { addAgentCapability, addAgentRoute, getAgentRoutingMap } from '../nlu/agent-routing';
+
+export const PROJECT_CONFIG_FILE = '.vibe-agents.json';
+
+const DEFAULT_INTENT_CONFIDENCE = 0.8;
+
+const keywordList = z.array(z.string().trim().min(1));
+
+const IntentConfigSchema = z.object({
+  keywords: keywordList.min(1),
+  weakKeywords: keywordList.optional(),
+  confidence: z.number().min(0).max(1).default(DEFAULT_INTENT_CONFIDENCE)
+});
+
+const EntityConfigSchema = z.object({
+  name: z.string().min(1),
+  patterns: keywordList.min(1),
+  ambiguous: keywordList.optional()
+});
+
+export const ProjectConfigSchema = z.object({
+  $schema: z.string().optional(),
+  intents: z.record(IntentConfigSchema).default({}),
+  entities: z.record(z.array(EntityConfigSchema)).default({}),
+  routes: z.record(z.string().min(1)).default({}),
+  capabilities: z.record(z.array(z.string().min(1))).default({})
+});
+
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
+
+export const parseProjectConfig = (raw: unknown): Either<Error, ProjectConfig> => {
+  const parsed = ProjectConfigSchema.safeParse(raw);
+
+  if (!parsed.success) {
+    return left(new Error('Invalid project config: ' + parsed.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ')));
+  }
+
+  return right(parsed.data);
+};
+
+/**
+ * null, если в проекте нет файла конфигурации
+ */
+export const loadProjectConfig = (dir: string): TaskEither<Error, ProjectConfig | null> => {
+  return pipe(
+    readConfigFile(join(dir, PROJECT_CONFIG_FILE)),
+    chain((raw) => fromEither(raw === null ? right(null) : parseProjectConfig(raw)))
+  );
+};
+
+const readConfigFile = (file: string): TaskEither<Error, unknown> => {
+  return tryCatch(
+    async () => {
+      try {
+        return JSON.parse(await readFile(file, 'utf-8')) as unknown;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    (error) => new Error(`${file}: ` + (error instanceof Error ? error.message : error))
+  );
+};
+
+/**
+ * Дополняет встроенные намерения, сущности, маршруты и компетенции.
+ * Сначала проверяются ссылки на агентов и намерения, чтобы не применить конфиг частично
+ */
+export const applyProjectConfig = (config: ProjectConfig): Either<Error, ProjectConfig> => {
+  const knownIntents = new Set([...getAllIntents(), ...Object.keys(config.intents)]);
+  const problems = [
+    ...Object.entries(config.routes).flatMap(([intent, agentId]) => [
+      ...(knownIntents.has(intent) ? [] : [`routes.${intent}: unknown intent`]),
+      ...(agentRegistry.has(agentId) ? [] : [`routes.${intent}: unknown agent ${agentId}`])
+    ]),
+    ...Object.keys(config.capabilities)
+      .filter(agentId => !agentRegistry.has(agentId))
+      .map(agentId => `capabilities.${agentId}: unknown agent`)
+  ];
+
+  if (problems.length > 0) {
+    return left(new Error('Invalid project config: ' + problems.join('; ')));
+  }
+
+  for (const [name, pattern] of Object.entries(config.intents)) {
+    addCustomIntent(name, pattern);
+  }
+
+  for (const [type, entities] of Object.entries(config.entities)) {
+    for (const entity of entities) {
+      // Одноимённая встроенная сущность расширяется новыми синонимами
+      const existing = getAllEntities()[type]?.find(e => e.name === entity.name);
+      if (existing) {
+        removeEntity(type, entity.name);
+      }
+
+      addCustomEntity(
+        type,
+        entity.name,
+        union(existing?.patterns, entity.patterns),
+        existing?.ambiguous || entity.ambiguous ? union(existing?.ambiguous, entity.ambiguous) : undefined
+      );
+    }
+  }
+
+  for (const [intent, agentId] of Object.entries(config.routes)) {
+    addAgentRoute(intent, agentId);
+  }
+
+  for (const [agentId, capabilities] of Object.entries(config.capabilities)) {
+    for (const capability of capabilities) {
+      addAgentCapability(agentId, capability);
+    }
+  }
+
+  return right(config);
+};
+
+export const setupProjectConfig = (dir: string): TaskEither<Error, ProjectConfig | null> => {
+  return pipe(
+    loadProjectConfig(dir),
+    chain((config) => fromEither(config ? applyProjectConfig(config) : right(null)))
+  );
+};
+
+/**
+ * Текущее состояние в виде конфига: только то, что отличается от встроенного
+ */
+export const exportProjectConfig = (): ProjectConfig => {
+  const builtinRoutes = new Map(BUILTIN_AGENTS.flatMap(agent => (agent.intents ?? []).map(i => [i, agent.id] as const)));
+  const builtinCapabilities = new Map(BUILTIN_AGENTS.map(agent => [agent.id, agent.competencies]));
+
+  const intents = Object.fromEntries(
+    Object.entries(getCustomIntents()).map(([name, pattern]) => [
+      name,
+      {
+        keywords: pattern.keywords,
+        ...(pattern.weakKeywords ? { weakKeywords: pattern.weakKeywords } : {}),
+        confidence: pattern.confidence
+      }
+    ])
+  );
+
+  const entities = Object.fromEntries(
+    Object.entries(getCustomEntities()).map(([type, patterns]) => [
+      type,
+      patterns.map(({ name, patterns, ambiguous }) => ({ name, patterns, ...(ambiguous ? { ambiguous } : {}) }))
+    ])
+  );
+
+  const routes = Object.fromEntries(
+    Object.entries(getAgentRoutingMap()).filter(([intent, agentId]) => builtinRoutes.get(intent) !== agentId)
+  );
+
+  const capabilities: Record<string, string[]> = {};
+  for (const agent of agentRegistry.list()) {
+    const builtin = builtinCapabilities.get(agent.id) ?? [];
+    const added = agent.competencies.filter(c => !builtin.includes(c));
+    if (added.length > 0) {
+      capabilities[agent.id] = added;
+    }
+  }
+
+  return { intents, entities, routes, capabilities };
+};
+
+/**
+ * Экспорт только добавляет: записи существующего файла, $schema и неизвестные ключи
+ * сохраняются, удалить запись можно только правкой файла.
+ * Файл, который не проходит проверку, не перезаписывается
+ */
+export const mergeProjectConfig = (existing: ProjectConfig, config: ProjectConfig): ProjectConfig => {
+  const entities: ProjectConfig['entities'] = { ...existing.entities };
+  for (const [type, added] of Object.entries(config.entities)) {
+    const merged = [...(entities[type] ?? [])];
+    for (const entity of added) {
+      const index = merged.findIndex(e => e.name === entity.name);
+      if (index < 0) {
+        merged.push(entity);
+        continue;
+      }
+
+      const ambiguous = merged[index].ambiguous || entity.ambiguous
+        ? union(merged[index].ambiguous, entity.ambiguous)
+        : undefined;
+      merged[index] = {
+        name: entity.name,
+        patterns: union(merged[index].patterns, entity.patterns),
+        ...(ambiguous ? { ambiguous } : {})
+      };
+    }
+    entities[type] = merged;
+  }
+
+  const capabilities: ProjectConfig['capabilities'] = { ...existing.capabilities };
+  for (const [agentId, added] of Object.entries(config.capabilities)) {
+    capabilities[agentId] = union(capabilities[agentId], added);
+  }
+
+  return {
+    ...existing,
+    intents: { ...existing.intents, ...config.intents },
+    entities,
+    routes: { ...existing.routes, ...config.routes },
+    capabilities
+  };
+};
+
+export const saveProjectConfig = (
+  dir: string,
+  config: ProjectConfig = exportProjectConfig()
+): TaskEither<Error, string> => {
+  const file = join(dir, PROJECT_CONFIG_FILE);
+
+  return pipe(
+    readConfigFile(file),
+    chain((raw) => fromEither(pipe(
+      raw === null ? right(ProjectConfigSchema.parse({})) : parseProjectConfig(raw),
+      // Неизвестные ключи файла остаются на месте, поля конфига объединяются
+      mapE((existing) => ({ ...(raw ?? {}), ...mergeProjectConfig(existing, config) }))
+    ))),
+    chain((merged) => tryCatch(
+      async () => {
+        await writeFile(file + '.tmp', JSON.stringify(merged, null, 2) + '\n', 'utf-8');
+        await rename(file + '.tmp', file);
+        return file;
+      },
+      (error) => new Error('Project config write error: ' + (error instanceof Error ? error.message : error))
+    ))
+  );
+};
+
+const union = (base: string[] = [], extra: string[] = []): string[] => {
+  return [...new Set([...base, ...extra])];
+};
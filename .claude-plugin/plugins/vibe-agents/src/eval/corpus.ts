@@ -0,0 +1,323 @@
+/**
+ * 🏷️ Evaluation Corpus
+ * Размеченные запросы на русском и английском: намерение, агент и сущности из текста
+ */
+
+import { EvalSample } from './types';
+
+export const EVAL_CORPUS: EvalSample[] = [
+  // create-component → vibe-coder
+  {
+    id: 'ru-component-react',
+    text: 'Создай React компонент кнопки',
+    locale: 'ru',
+    intent: 'create-component',
+    agentId: 'vibe-coder',
+    entities: [{ type: 'framework', value: 'React' }, { type: 'taskType', value: 'component' }]
+  },
+  {
+    id: 'ru-component-vue-form',
+    text: 'Сделай форму регистрации на Vue',
+    locale: 'ru',
+    intent: 'create-component',
+    agentId: 'vibe-coder',
+    entities: [{ type: 'framework', value: 'Vue' }, { type: 'taskType', value: 'component' }]
+  },
+  {
+    id: 'ru-component-card',
+    text: 'Нужна карточка товара на реакте',
+    locale: 'ru',
+    intent: 'create-component',
+    agentId: 'vibe-coder',
+    entities: [{ type: 'framework', value: 'React' }]
+  },
+  {
+    id: 'en-component-modal',
+    text: 'Create a modal component in Svelte',
+    locale: 'en',
+    intent: 'create-component',
+    agentId: 'vibe-coder',
+    entities: [{ type: 'framework', value: 'Svelte' }, { type: 'taskType', value: 'component' }]
+  },
+  {
+    id: 'en-component-button',
+    text: 'build a reusable button with TypeScript',
+    locale: 'en',
+    intent: 'create-component',
+    agentId: 'vibe-coder',
+    entities: [{ type: 'language', value: 'TypeScript' }, { type: 'taskType', value: 'component' }],
+    llmResponse: '```json\n{"intent":{"name":"create-component","confidence":0.88},"entities":[{"type":"language","value":"TypeScript","confidence":0.9},{"type":"taskType","value":"component","confidence":0.8}],"suggestedAction":"Create a button component","confidence":0.88}\n```'
+  },
+
+  // create-application → vibe-lead
+  {
+    id: 'ru-app-next',
+    text: 'Создай приложение на Next.js',
+    locale: 'ru',
+    intent: 'create-application',
+    agentId: 'vibe-lead',
+    entities: [{ type: 'framework', value: 'Next.js' }, { type: 'taskType', value: 'application' }]
+  },
+  {
+    id: 'ru-app-site',
+    text: 'Сделай сайт портфолио на астро',
+    locale: 'ru',
+    intent: 'create-application',
+    agentId: 'vibe-lead',
+    entities: [{ type: 'framework', value: 'Astro' }, { type: 'taskType', value: 'application' }]
+  },
+  {
+    id: 'en-app-spa',
+    text: 'Create an SPA on Vue',
+    locale: 'en',
+    intent: 'create-application',
+    agentId: 'vibe-lead',
+    entities: [{ type: 'framework', value: 'Vue' }]
+  },
+  {
+    id: 'en-app-web',
+    text: 'Start a new web app with Angular',
+    locale: 'en',
+    intent: 'create-application',
+    agentId: 'vibe-lead',
+    entities: [{ type: 'framework', value: 'Angular' }]
+  },
+
+  // develop-api → vibe-coder
+  {
+    id: 'ru-api-express',
+    text: 'Разработай бэкенд на экспресс с MongoDB',
+    locale: 'ru',
+    intent: 'develop-api',
+    agentId: 'vibe-coder',
+    entities: [{ type: 'technology', value: 'Express' }, { type: 'technology', value: 'MongoDB' }]
+  },
+  {
+    id: 'ru-api-go',
+    text: 'Нужен REST API на Go',
+    locale: 'ru',
+    intent: 'develop-api',
+    agentId: 'vibe-coder',
+    entities: [{ type: 'taskType', value: 'api' }, { type: 'language', value: 'Go' }]
+  },
+  {
+    id: 'en-api-fastapi',
+    text: 'Build a GraphQL endpoint with FastAPI and Redis',
+    locale: 'en',
+    intent: 'develop-api',
+    agentId: 'vibe-coder',
+    entities: [
+      { type: 'taskType', value: 'api' },
+      { type: 'technology', value: 'FastAPI' },
+      { type: 'technology', value: 'Redis' }
+    ]
+  },
+  {
+    id: 'en-api-backend',
+    text: 'write a backend in Python using Django',
+    locale: 'en',
+    intent: 'develop-api',
+    agentId: 'vibe-coder',
+    entities: [{ type: 'language', value: 'Python' }, { type: 'technology', value: 'Django' }]
+  },
+
+  // write-tests → vibe-tester
+  {
+    id: 'ru-tests-api',
+    text: 'Напиши тесты для API на Go',
+    locale: 'ru',
+    intent: 'write-tests',
+    agentId: 'vibe-tester',
+    entities: [{ type: 'taskType', value: 'tests' }, { type: 'taskType', value: 'api' }, { type: 'language', value: 'Go' }]
+  },
+  {
+    id: 'ru-tests-e2e',
+    text: 'Добавь e2e тесты на Cypress',
+    locale: 'ru',
+    intent: 'write-tests',
+    agentId: 'vibe-tester',
+    entities: [{ type: 'taskType', value: 'tests' }]
+  },
+  {
+    id: 'en-tests-unit',
+    text: 'write unit tests for the login form',
+    locale: 'en',
+    intent: 'write-tests',
+    agentId: 'vibe-tester',
+    entities: [{ type: 'taskType', value: 'tests' }, { type: 'taskType', value: 'component' }]
+  },
+  {
+    id: 'en-tests-jest',
+    text: 'Cover the utils module with Jest',
+    locale: 'en',
+    intent: 'write-tests',
+    agentId: 'vibe-tester',
+    entities: [],
+    llmResponse: '{"intent":{"name":"refactor-code","confidence":0.55},"entities":[],"suggestedAction":"Refactor utils","confidence":0.55}'
+  },
+
+  // security-audit → vibe-security
+  {
+    id: 'ru-security-audit',
+    text: 'Проведи аудит безопасности проекта',
+    locale: 'ru',
+    intent: 'security-audit',
+    agentId: 'vibe-security',
+    entities: []
+  },
+  {
+    id: 'ru-security-vuln',
+    text: 'Проверь код на уязвимости',
+    locale: 'ru',
+    intent: 'security-audit',
+    agentId: 'vibe-security',
+    entities: []
+  },
+  {
+    id: 'en-security-scan',
+    text: 'Scan the repository for security vulnerabilities',
+    locale: 'en',
+    intent: 'security-audit',
+    agentId: 'vibe-security',
+    entities: []
+  },
+
+  // setup-ci → vibe-devops
+  {
+    id: 'ru-ci-actions',
+    text: 'Настрой CI/CD через GitHub Actions',
+    locale: 'ru',
+    intent: 'setup-ci',
+    agentId: 'vibe-devops',
+    entities: []
+  },
+  {
+    id: 'ru-ci-pipeline',
+    text: 'Сделай пайплайн сборки для приложения',
+    locale: 'ru',
+    intent: 'setup-ci',
+    agentId: 'vibe-devops',
+    entities: [{ type: 'taskType', value: 'application' }]
+  },
+  {
+    id: 'en-ci-gitlab',
+    text: 'Set up a GitLab CI pipeline with tests',
+    locale: 'en',
+    intent: 'setup-ci',
+    agentId: 'vibe-devops',
+    entities: [{ type: 'taskType', value: 'tests' }]
+  },
+
+  // optimize-performance → vibe-diagnostics
+  {
+    id: 'ru-perf-speed',
+    text: 'Ускорить загрузку страницы, сейчас всё тормозит',
+    locale: 'ru',
+    intent: 'optimize-performance',
+    agentId: 'vibe-diagnostics',
+    entities: []
+  },
+  {
+    id: 'ru-perf-memo',
+    text: 'Оптимизируй рендер списка, добавь мемоизация',
+    locale: 'ru',
+    intent: 'optimize-performance',
+    agentId: 'vibe-diagnostics',
+    entities: []
+  },
+  {
+    id: 'en-perf-lazy',
+    text: 'Improve performance with lazy loading of images',
+    locale: 'en',
+    intent: 'optimize-performance',
+    agentId: 'vibe-diagnostics',
+    entities: []
+  },
+
+  // refactor-code → vibe-critic
+  {
+    id: 'ru-refactor-ts',
+    text: 'Сделай рефакторинг кода на тайпскрипт',
+    locale: 'ru',
+    intent: 'refactor-code',
+    agentId: 'vibe-critic',
+    entities: [{ type: 'language', value: 'TypeScript' }]
+  },
+  {
+    id: 'ru-refactor-clean',
+    text: 'Улучши код сервиса оплаты',
+    locale: 'ru',
+    intent: 'refactor-code',
+    agentId: 'vibe-critic',
+    entities: []
+  },
+  {
+    id: 'en-refactor-clean',
+    text: 'Refactor this module into clean code',
+    locale: 'en',
+    intent: 'refactor-code',
+    agentId: 'vibe-critic',
+    entities: []
+  },
+
+  // debug-issue → vibe-coder
+  {
+    id: 'ru-debug-broken',
+    text: 'Не работает авторизация, исправь баг',
+    locale: 'ru',
+    intent: 'debug-issue',
+    agentId: 'vibe-coder',
+    entities: []
+  },
+  {
+    id: 'ru-debug-error',
+    text: 'При сборке ошибка в хуке useEffect',
+    locale: 'ru',
+    intent: 'debug-issue',
+    agentId: 'vibe-coder',
+    entities: [{ type: 'taskType', value: 'hook' }]
+  },
+  {
+    id: 'en-debug-next',
+    text: 'fix the bug in my Next.js app',
+    locale: 'en',
+    intent: 'debug-issue',
+    agentId: 'vibe-coder',
+    entities: [{ type: 'framework', value: 'Next.js' }]
+  },
+  {
+    id: 'en-debug-crash',
+    text: 'The server crashes with an error on startup',
+    locale: 'en',
+    intent: 'debug-issue',
+    agentId: 'vibe-coder',
+    entities: [{ type: 'taskType', value: 'api' }],
+    llmResponse: 'Sure! Here is the analysis: {"intent":{"name":"debug-issue","confidence":0.91},"entities":[{"type":"taskType","value":"api","confidence":0.7}],"suggestedAction":"Investigate the crash","confidence":0.91}'
+  },
+
+  // generate-documentation → vibe-knowledge-keeper
+  {
+    id: 'ru-docs-readme',
+    text: 'Напиши документацию и README для проекта',
+    locale: 'ru',
+    intent: 'generate-documentation',
+    agentId: 'vibe-knowledge-keeper',
+    entities: []
+  },
+  {
+    id: 'ru-docs-api',
+    text: 'Сгенерируй описание API',
+    locale: 'ru',
+    intent: 'generate-documentation',
+    agentId: 'vibe-knowledge-keeper',
+    entities: [{ type: 'taskType', value: 'api' }]
+  },
+  {
+    id: 'en-docs-generate',
+    text: 'generate documentation and README',
+    locale: 'en',
+    intent: 'generate-documentation',
+    agentId: 'vibe-knowledge-keeper',
+    entities: []
+  }
+];
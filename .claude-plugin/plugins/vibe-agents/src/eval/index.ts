@@ -0,0 +1,10 @@
+/**
+ * 📏 Evaluation
+ * Labeled corpus and accuracy metrics for the NLU layer
+ */
+
+export * from './types';
+export * from './corpus';
+export * from './metrics';
+export * from './runner';
+export * from './report';
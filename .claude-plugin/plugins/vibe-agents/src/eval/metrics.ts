@@ -0,0 +1,78 @@
+/**
+ * 📊 Evaluation Metrics
+ * Precision/recall по намерениям, матрица ошибок, F1 сущностей
+ */
+
+import { EntityMetrics, IntentMetrics, LabeledEntity, SamplePrediction } from './types';
+
+export const ratio = (numerator: number, denominator: number): number => {
+  return denominator === 0 ? 0 : numerator / denominator;
+};
+
+const f1 = (precision: number, recall: number): number => {
+  return precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+};
+
+export const intentLabels = (predictions: SamplePrediction[]): string[] => {
+  return [...new Set(predictions.flatMap(p => [p.expectedIntent, p.predictedIntent]))].sort();
+};
+
+export const computeIntentMetrics = (predictions: SamplePrediction[]): IntentMetrics[] => {
+  return intentLabels(predictions).map(intent => {
+    const truePositives = predictions.filter(p => p.expectedIntent === intent && p.predictedIntent === intent).length;
+    const predicted = predictions.filter(p => p.predictedIntent === intent).length;
+    const support = predictions.filter(p => p.expectedIntent === intent).length;
+    const precision = ratio(truePositives, predicted);
+    const recall = ratio(truePositives, support);
+
+    return { intent, precision, recall, f1: f1(precision, recall), support };
+  });
+};
+
+export const computeConfusion = (predictions: SamplePrediction[]): Record<string, Record<string, number>> => {
+  const labels = intentLabels(predictions);
+  const confusion: Record<string, Record<string, number>> = {};
+
+  for (const expected of labels) {
+    confusion[expected] = Object.fromEntries(labels.map(predicted => [predicted, 0]));
+  }
+
+  for (const prediction of predictions) {
+    confusion[prediction.expectedIntent][prediction.predictedIntent]++;
+  }
+
+  return confusion;
+};
+
+/**
+ * Микро-усреднение: сущность совпала, если совпали тип и значение
+ */
+export const computeEntityMetrics = (predictions: SamplePrediction[]): EntityMetrics => {
+  let truePositives = 0;
+  let falsePositives = 0;
+  let falseNegatives = 0;
+
+  for (const prediction of predictions) {
+    const expected = new Set(prediction.expectedEntities.map(entityKey));
+    const predicted = new Set(prediction.predictedEntities.map(entityKey));
+
+    for (const key of predicted) {
+      if (expected.has(key)) {
+        truePositives++;
+      } else {
+        falsePositives++;
+      }
+    }
+
+    falseNegatives += [...expected].filter(key => !predicted.has(key)).length;
+  }
+
+  const precision = ratio(truePositives, truePositives + falsePositives);
+  const recall = ratio(truePositives, truePositives + falseNegatives);
+
+  return { precision, recall, f1: f1(precision, recall), truePositives, falsePositives, falseNegatives };
+};
+
+export const entityKey = (entity: LabeledEntity): string => {
+  return `${entity.type}:${entity.value}`;
+};
@@ -0,0 +1,63 @@
+/**
+ * 📝 Evaluation Report
+ * Markdown-отчёт со стабильным порядком строк: отчёты разных версий удобно сравнивать diff'ом
+ */
+
+import { EvalReport } from './types';
+
+const format = (value: number): string => value.toFixed(3);
+
+export const formatReport = (report: EvalReport): string => {
+  const labels = Object.keys(report.confusion);
+  const lines: string[] = [
+    `# NLU evaluation: ${report.path}`,
+    '',
+    ...(report.path === 'llm'
+      ? ['Samples with a recorded provider response (`llmResponse` in the corpus) only.', '']
+      : []),
+    '| Metric | Value |',
+    '|--------|-------|',
+    `| Samples | ${report.samples} |`,
+    `| Intent accuracy | ${format(report.intentAccuracy)} |`,
+    `| Routing accuracy | ${format(report.routingAccuracy)} |`,
+    `| Locale accuracy | ${format(report.localeAccuracy)} |`,
+    `| Entity precision | ${format(report.entities.precision)} |`,
+    `| Entity recall | ${format(report.entities.recall)} |`,
+    `| Entity F1 | ${format(report.entities.f1)} |`,
+    '',
+    '## Intents',
+    '',
+    '| Intent | Precision | Recall | F1 | Support |',
+    '|--------|-----------|--------|----|---------|',
+    ...report.intents.map(m =>
+      `| ${m.intent} | ${format(m.precision)} | ${format(m.recall)} | ${format(m.f1)} | ${m.support} |`
+    ),
+    '',
+    '## Confusion matrix',
+    '',
+    'Rows: expected intent, columns: predicted intent.',
+    '',
+    `| | ${labels.join(' | ')} |`,
+    `|---|${labels.map(() => '---').join('|')}|`,
+    ...labels.map(expected =>
+      `| ${expected} | ${labels.map(predicted => report.confusion[expected][predicted]).join(' | ')} |`
+    ),
+    '',
+    '## Errors',
+    ''
+  ];
+
+  if (report.errors.length === 0) {
+    lines.push('None.');
+  }
+
+  for (const error of report.errors) {
+    lines.push(
+      `- \`${error.id}\` «${error.text}»: expected ${error.expectedIntent} → ${error.expectedAgent}, ` +
+      `got ${error.predictedIntent} → ${error.predictedAgent ?? '(no route)'}` +
+      (error.error ? ` (${error.error})` : '')
+    );
+  }
+
+  return lines.join('\n') + '\n';
+};
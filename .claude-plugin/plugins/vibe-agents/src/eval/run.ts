@@ -0,0 +1,41 @@
+/**
+ * ▶️ Evaluation CLI
+ * npx tsx src/eval/run.ts [rules|llm|all] [--json] [--out <file>]
+ */
+
+import { writeFile } from 'node:fs/promises';
+import { evaluateNLU } from './runner';
+import { formatReport } from './report';
+import { EvalPath, EvalReport } from './types';
+
+const main = async (args: string[]) => {
+  const target = args.find(arg => !arg.startsWith('--') && args[args.indexOf(arg) - 1] !== '--out') ?? 'all';
+  const json = args.includes('--json');
+  const outIndex = args.indexOf('--out');
+  const out = outIndex >= 0 ? args[outIndex + 1] : undefined;
+
+  const paths: EvalPath[] = target === 'all' ? ['rules', 'llm'] : [target as EvalPath];
+  if (paths.some(path => path !== 'rules' && path !== 'llm')) {
+    throw new Error(`Unknown evaluation path: ${target} (expected rules, llm or all)`);
+  }
+
+  const reports: EvalReport[] = [];
+  for (const path of paths) {
+    reports.push(await evaluateNLU(path));
+  }
+
+  const output = json
+    ? JSON.stringify(reports, null, 2) + '\n'
+    : reports.map(formatReport).join('\n');
+
+  if (out) {
+    await writeFile(out, output, 'utf-8');
+  } else {
+    process.stdout.write(output);
+  }
+};
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
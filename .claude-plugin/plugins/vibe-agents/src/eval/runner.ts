@@ -0,0 +1,113 @@
+/**
+ * 🧪 Evaluation Runner
+ * Прогон размеченного корпуса через NLU: путь правил и путь с записанными ответами LLM
+ */
+
+import { isLeft } from 'fp-ts/lib/Either';
+import { createNLUService } from '../nlu/nlu-service';
+import { createMockProvider, MockProvider } from '../nlu/providers/mock';
+import { NLUService } from '../nlu/types';
+import { EVAL_CORPUS } from './corpus';
+import { computeConfusion, computeEntityMetrics, computeIntentMetrics, ratio } from './metrics';
+import { EvalPath, EvalReport, EvalSample, SamplePrediction } from './types';
+
+// Метка для запросов, которые NLU не смог разобрать
+export const UNRECOGNIZED = '(none)';
+
+export interface EvaluationOptions {
+  corpus?: EvalSample[];
+  // Своя реализация NLU вместо стандартной для выбранного пути
+  nlu?: NLUService;
+}
+
+// Путь llm оценивает только примеры с записанным ответом модели:
+// ответ, собранный из эталонной разметки, дал бы заведомо верные метрики
+export const recordedSamples = (corpus: EvalSample[] = EVAL_CORPUS): EvalSample[] => {
+  return corpus.filter(sample => sample.llmResponse !== undefined);
+};
+
+/**
+ * Модель отвечает записанным ответом из корпуса.
+ * Так проверяются разбор ответа, схема и маршрутизация без сети
+ */
+export const createCorpusMockProvider = (corpus: EvalSample[] = EVAL_CORPUS): MockProvider => {
+  return createMockProvider({
+    responses: Object.fromEntries(recordedSamples(corpus).map(sample => [sample.text, sample.llmResponse!]))
+  });
+};
+
+export const createEvaluationNLU = (path: EvalPath, corpus: EvalSample[] = EVAL_CORPUS): NLUService => {
+  return path === 'rules'
+    ? createNLUService({ policy: 'rules-only', enableCache: false })
+    : createNLUService({ policy: 'llm-only', enableCache: false, provider: createCorpusMockProvider(corpus) });
+};
+
+export const evaluateNLU = async (path: EvalPath, options: EvaluationOptions = {}): Promise<EvalReport> => {
+  const corpus = path === 'llm'
+    ? recordedSamples(options.corpus)
+    : options.corpus ?? EVAL_CORPUS;
+  const nlu = options.nlu ?? createEvaluationNLU(path, corpus);
+  const predictions: SamplePrediction[] = [];
+
+  // Последовательно: порядок запросов к mock-провайдеру и отчёт детерминированы
+  for (const sample of corpus) {
+    predictions.push(await predictSample(nlu, sample));
+  }
+
+  const failed = predictions.filter(p =>
+    p.predictedIntent !== p.expectedIntent || p.predictedAgent !== p.expectedAgent
+  );
+
+  return {
+    path,
+    samples: predictions.length,
+    intentAccuracy: ratio(predictions.filter(p => p.predictedIntent === p.expectedIntent).length, predictions.length),
+    routingAccuracy: ratio(predictions.filter(p => p.predictedAgent === p.expectedAgent).length, predictions.length),
+    localeAccuracy: ratio(
+      predictions.filter((p, i) => p.locale === corpus[i].locale).length,
+      predictions.length
+    ),
+    intents: computeIntentMetrics(predictions),
+    confusion: computeConfusion(predictions),
+    entities: computeEntityMetrics(predictions),
+    errors: failed
+  };
+};
+
+const predictSample = async (nlu: NLUService, sample: EvalSample): Promise<SamplePrediction> => {
+  const base = {
+    id: sample.id,
+    text: sample.text,
+    expectedIntent: sample.intent,
+    expectedAgent: sample.agentId,
+    expectedEntities: sample.entities
+  };
+
+  const parsed = await nlu.parseText(sample.text)();
+
+  if (isLeft(parsed)) {
+    return {
+      ...base,
+      predictedIntent: UNRECOGNIZED,
+      predictedAgent: null,
+      predictedEntities: [],
+      locale: null,
+      error: parsed.left.kind + ': ' + parsed.left.message
+    };
+  }
+
+  const parsing = parsed.right;
+  const routed = await nlu.routeToAgent(parsing.intent, parsing.entities)();
+
+  return {
+    ...base,
+    predictedIntent: parsing.intent.name,
+    predictedAgent: isLeft(routed) ? null : routed.right.agentId,
+    // Значения по умолчанию из проекта и предпочтений в тексте не размечены
+    predictedEntities: parsing.entities
+      .filter(entity => (entity.origin ?? 'text') === 'text')
+      .map(({ type, value }) => ({ type, value })),
+    locale: parsing.locale ?? null,
+    error: isLeft(routed) ? routed.left.message : undefined
+  };
+};
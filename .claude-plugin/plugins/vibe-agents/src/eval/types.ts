@@ -0,0 +1,66 @@
+/**
+ * 📏 Evaluation Types
+ */
+
+import { NLULocale } from '../nlu/types';
+
+export interface LabeledEntity {
+  type: string;
+  value: string;
+}
+
+export interface EvalSample {
+  id: string;
+  text: string;
+  locale: NLULocale;
+  intent: string;
+  agentId: string;
+  entities: LabeledEntity[];
+  // Записанный ответ модели: только такие примеры попадают в mocked-LLM прогон
+  llmResponse?: string;
+}
+
+export type EvalPath = 'rules' | 'llm';
+
+export interface SamplePrediction {
+  id: string;
+  text: string;
+  expectedIntent: string;
+  predictedIntent: string;
+  expectedAgent: string;
+  predictedAgent: string | null;
+  expectedEntities: LabeledEntity[];
+  predictedEntities: LabeledEntity[];
+  locale: NLULocale | null;
+  error?: string;
+}
+
+export interface IntentMetrics {
+  intent: string;
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface EntityMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+}
+
+export interface EvalReport {
+  path: EvalPath;
+  samples: number;
+  intentAccuracy: number;
+  routingAccuracy: number;
+  localeAccuracy: number;
+  intents: IntentMetrics[];
+  // confusion[expected][predicted] = число примеров
+  confusion: Record<string, Record<string, number>>;
+  entities: EntityMetrics;
+  errors: SamplePrediction[];
+}
@@ -4,3 +4,11 @@
  */
 
 export { VibeAgentsPlugin } from './plugin';
+export type { VibeAgentsPluginOptions, ArbitrateOptions } from './plugin';
+export * from './pipeline';
+export * from './agents';
+export * from './config';
+export * from './tracing';
+export * from './learn';
+export * from './arbitration';
+export * from './tasks';
@@ -0,0 +1,237 @@
+/**
+ * 📚 Course Loader
+ * Курсы — директории с markdown: course.md (описание и квиз уровня) и файлы уроков
+ */
+
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { z } from 'zod';
+import { TaskEither, tryCatch } from 'fp-ts/lib/TaskEither';
+import { asStringList, FrontmatterValue, parseFrontmatter } from '../agents/frontmatter';
+import { Course, Lesson, QuizQuestion } from './types';
+
+export const COURSE_FILE = 'course.md';
+
+export const DEFAULT_COURSES_DIR = fileURLToPath(new URL('../../courses/', import.meta.url));
+
+// Сколько вопросов квиза уровня сборный курс берёт из каждого включённого курса
+const INCLUDED_ASSESSMENT_QUESTIONS = 1;
+
+const LevelSchema = z.enum(['beginner', 'intermediate', 'advanced']);
+
+const CourseFrontmatterSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  level: LevelSchema.default('beginner'),
+  slugs: z.array(z.string().min(1)).default([]),
+  // Сборный курс: уроки и квиз уровня берутся из перечисленных курсов
+  includes: z.array(z.string().min(1)).default([])
+});
+
+const LessonFrontmatterSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  level: LevelSchema.default('beginner'),
+  topics: z.array(z.string()).default([])
+});
+
+const FRONTMATTER_BLOCK = /^---\r?\n[\s\S]*?\r?\n---\r?\n?/;
+const QUIZ_HEADING = /^##\s+(?:Квиз|Quiz)\s*$/im;
+const NEXT_SECTION = /^##\s/m;
+const OPTION_LINE = /^\s*-\s+\[( |x|X)\]\s+(.+)$/;
+
+/**
+ * Квиз в markdown:
+ *
+ *   ## Квиз
+ *   ### Вопрос
+ *   - [ ] неверный вариант
+ *   - [x] верный вариант
+ *   > Пояснение
+ */
+export const parseQuiz = (markdown: string): QuizQuestion[] => {
+  return markdown
+    .split(/^###\s+/m)
+    .slice(1)
+    .map(block => {
+      const [heading, ...lines] = block.split(/\r?\n/);
+      const options: string[] = [];
+      const explanation: string[] = [];
+      let answer = -1;
+
+      for (const line of lines) {
+        const option = line.match(OPTION_LINE);
+        if (option) {
+          if (option[1].toLowerCase() === 'x') {
+            if (answer >= 0) {
+              throw new Error(`Question "${heading.trim()}" has more than one correct option`);
+            }
+            answer = options.length;
+          }
+          options.push(option[2].trim());
+        } else if (line.startsWith('>')) {
+          explanation.push(line.replace(/^>\s?/, '').trim());
+        }
+      }
+
+      if (options.length < 2 || answer < 0) {
+        throw new Error(`Question "${heading.trim()}" needs at least two options and one marked [x]`);
+      }
+
+      return {
+        question: heading.trim(),
+        options,
+        answer,
+        explanation: explanation.length > 0 ? explanation.join(' ') : undefined
+      };
+    });
+};
+
+/**
+ * Делит тело документа на текст и квиз (раздел `## Квиз` до следующего `##`)
+ */
+const splitQuiz = (markdown: string): { content: string; quiz: QuizQuestion[] } => {
+  const body = markdown.replace(FRONTMATTER_BLOCK, '');
+  const heading = body.match(QUIZ_HEADING);
+
+  if (!heading || heading.index === undefined) {
+    return { content: body.trim(), quiz: [] };
+  }
+
+  const before = body.slice(0, heading.index);
+  const rest = body.slice(heading.index + heading[0].length);
+  const next = rest.search(NEXT_SECTION);
+  const quizText = next >= 0 ? rest.slice(0, next) : rest;
+  const after = next >= 0 ? rest.slice(next) : '';
+
+  return {
+    content: (before + after).trim(),
+    quiz: parseQuiz(quizText)
+  };
+};
+
+const normalizeFrontmatter = (frontmatter: Record<string, FrontmatterValue>, lists: string[]) => {
+  return Object.fromEntries(
+    Object.entries(frontmatter).map(([key, value]) => [
+      key,
+      lists.includes(key) ? asStringList(value) : value === null ? undefined : String(value)
+    ])
+  );
+};
+
+const parseFile = <T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  markdown: string,
+  file: string,
+  lists: string[]
+): T => {
+  const frontmatter = parseFrontmatter(markdown);
+  if (!frontmatter) {
+    throw new Error(`${file}: missing frontmatter`);
+  }
+
+  const parsed = schema.safeParse(normalizeFrontmatter(frontmatter, lists));
+  if (!parsed.success) {
+    throw new Error(`${file}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+  }
+
+  return parsed.data;
+};
+
+const withFile = <T>(file: string, fn: () => T): T => {
+  try {
+    return fn();
+  } catch (error) {
+    throw new Error(`${file}: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+export const parseLesson = (markdown: string, courseId: string, file: string = 'lesson'): Lesson => {
+  const meta = parseFile(LessonFrontmatterSchema, markdown, file, ['topics']);
+  const { content, quiz } = withFile(file, () => splitQuiz(markdown));
+
+  return {
+    id: `${courseId}/${meta.id}`,
+    courseId,
+    title: meta.title,
+    level: meta.level,
+    topics: meta.topics,
+    content,
+    quiz
+  };
+};
+
+interface LoadedCourse {
+  course: Course;
+  includes: string[];
+}
+
+const loadCourse = async (dir: string): Promise<LoadedCourse> => {
+  const courseFile = join(dir, COURSE_FILE);
+  const markdown = await readFile(courseFile, 'utf-8');
+  const meta = parseFile(CourseFrontmatterSchema, markdown, courseFile, ['slugs', 'includes']);
+  const { content, quiz } = withFile(courseFile, () => splitQuiz(markdown));
+
+  // Порядок уроков задаётся именами файлов: 01-structure.md, 02-actions.md…
+  const files = (await readdir(dir)).filter(f => f.endsWith('.md') && f !== COURSE_FILE).sort();
+  const lessons: Lesson[] = [];
+
+  for (const file of files) {
+    lessons.push(parseLesson(await readFile(join(dir, file), 'utf-8'), meta.id, join(dir, file)));
+  }
+
+  return {
+    course: {
+      id: meta.id,
+      title: meta.title,
+      description: content,
+      level: meta.level,
+      slugs: meta.slugs,
+      lessons,
+      assessment: quiz
+    },
+    includes: meta.includes
+  };
+};
+
+/**
+ * Загружает все курсы из поддиректорий; сборные курсы получают уроки включённых
+ */
+export const loadCourses = (dir: string = DEFAULT_COURSES_DIR): TaskEither<Error, Course[]> => {
+  return tryCatch(
+    async () => {
+      const entries = await readdir(dir, { withFileTypes: true });
+      const loaded: LoadedCourse[] = [];
+
+      for (const entry of entries.filter(e => e.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+        loaded.push(await loadCourse(join(dir, entry.name)));
+      }
+
+      const byId = new Map(loaded.map(({ course }) => [course.id, course]));
+
+      return loaded.map(({ course, includes }) => {
+        if (includes.length === 0) {
+          return course;
+        }
+
+        const included = includes.map(id => {
+          const found = byId.get(id);
+          if (!found) {
+            throw new Error(`Course ${course.id} includes unknown course: ${id}`);
+          }
+          return found;
+        });
+
+        return {
+          ...course,
+          lessons: [...course.lessons, ...included.flatMap(c => c.lessons)],
+          assessment: course.assessment.length > 0
+            ? course.assessment
+            : included.flatMap(c => c.assessment.slice(0, INCLUDED_ASSESSMENT_QUESTIONS))
+        };
+      });
+    },
+    (error) => error instanceof Error ? error : new Error('Course loading error: ' + error)
+  );
+};
@@ -0,0 +1,11 @@
+/**
+ * 🎓 Learn
+ * Course engine behind /learn
+ */
+
+export * from './types';
+export * from './course-loader';
+export * from './quiz';
+export * from './progress-store';
+export * from './resolver';
+export * from './learn-engine';
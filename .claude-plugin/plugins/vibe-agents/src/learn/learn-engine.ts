@@ -0,0 +1,212 @@
+/**
+ * 🎓 Learn Engine
+ * /learn: меню курсов, оценка уровня, уроки с квизами и рекомендация следующего урока
+ */
+
+import { TaskEither, chain, fromEither, map, right as rightTE } from 'fp-ts/lib/TaskEither';
+import { Either, isLeft, left, right } from 'fp-ts/lib/Either';
+import { pipe } from 'fp-ts/lib/function';
+import { loadCourses } from './course-loader';
+import { assessLevel, gradeQuiz, LESSON_PASS_SCORE } from './quiz';
+import { resolveLearnArgument } from './resolver';
+import {
+  createProgressStore,
+  recommendNextLesson,
+  recordAssessment,
+  recordLesson,
+  summarizeCourse
+} from './progress-store';
+import {
+  Course,
+  CourseSummary,
+  LearnEngineOptions,
+  LearnResolution,
+  Lesson,
+  LevelAssessment,
+  QuizResult,
+  UserProgress
+} from './types';
+
+export interface LearnResponse {
+  resolution: LearnResolution;
+  // Прогресс по курсам из ответа: все курсы для меню, один — для курса или урока
+  summaries: CourseSummary[];
+}
+
+export interface AssessmentOutcome {
+  result: QuizResult;
+  assessment: LevelAssessment;
+  nextLesson?: Lesson;
+}
+
+export interface LessonOutcome {
+  result: QuizResult;
+  progress: UserProgress;
+  nextLesson?: Lesson;
+}
+
+export interface LearnEngine {
+  courses: () => TaskEither<Error, Course[]>;
+  learn: (userId: string, argument?: string) => TaskEither<Error, LearnResponse>;
+  assess: (userId: string, courseId: string, answers: number[]) => TaskEither<Error, AssessmentOutcome>;
+  completeLesson: (
+    userId: string,
+    courseId: string,
+    lessonId: string,
+    answers: number[]
+  ) => TaskEither<Error, LessonOutcome>;
+  progress: (userId: string) => TaskEither<Error, UserProgress>;
+}
+
+const findCourse = (courses: Course[], courseId: string): Either<Error, Course> => {
+  const course = courses.find(c => c.id === courseId);
+  return course ? right(course) : left(new Error('Unknown course: ' + courseId));
+};
+
+const findLesson = (course: Course, lessonId: string): Either<Error, Lesson> => {
+  // Урок можно указать полным `<курс>/<урок>` или коротким идентификатором
+  const lesson = course.lessons.find(l => l.id === lessonId || l.id === `${course.id}/${lessonId}`);
+  return lesson ? right(lesson) : left(new Error(`Unknown lesson in ${course.id}: ${lessonId}`));
+};
+
+export const createLearnEngine = (options: LearnEngineOptions = {}): LearnEngine => {
+  const store = createProgressStore(options.progressDir);
+  let loaded: Promise<Either<Error, Course[]>> | undefined;
+
+  // Курсы читаются с диска один раз; ошибка загрузки не кэшируется
+  const courses: LearnEngine['courses'] = () => async () => {
+    loaded ??= loadCourses(options.coursesDir)();
+    const result = await loaded;
+    if (isLeft(result)) {
+      loaded = undefined;
+    }
+    return result;
+  };
+
+  const withCourse = (courseId: string) => pipe(courses(), chain(list => fromEither(findCourse(list, courseId))));
+
+  return {
+    courses,
+
+    learn: (userId: string, argument?: string) => {
+      return pipe(
+        courses(),
+        chain(list =>
+          pipe(
+            store.load(userId),
+            map(progress => {
+              const resolution = resolveLearnArgument(list, argument);
+              const shown = resolution.kind === 'course' || resolution.kind === 'lesson'
+                ? [resolution.course]
+                : list;
+
+              return { resolution, summaries: shown.map(course => summarizeCourse(course, progress)) };
+            })
+          )
+        )
+      );
+    },
+
+    assess: (userId: string, courseId: string, answers: number[]) => {
+      return pipe(
+        withCourse(courseId),
+        chain(course =>
+          pipe(
+            store.load(userId),
+            chain(progress => {
+              const { result, assessment } = assessLevel(course, answers);
+              return pipe(
+                store.save(recordAssessment(progress, course.id, assessment)),
+                map(saved => ({ result, assessment, nextLesson: recommendNextLesson(course, saved) }))
+              );
+            })
+          )
+        )
+      );
+    },
+
+    completeLesson: (userId: string, courseId: string, lessonId: string, answers: number[]) => {
+      return pipe(
+        withCourse(courseId),
+        chain(course =>
+          pipe(
+            fromEither(findLesson(course, lessonId)),
+            chain(lesson =>
+              pipe(
+                store.load(userId),
+                chain(progress => {
+                  const result = gradeQuiz(lesson.quiz, answers);
+                  // Непройденный квиз прогресс не меняет: урок остаётся рекомендованным
+                  const updated = result.passed ? recordLesson(progress, lesson.id, result.score) : progress;
+
+                  return pipe(
+                    result.passed ? store.save(updated) : rightTE(updated),
+                    map(saved => ({ result, progress: saved, nextLesson: recommendNextLesson(course, saved) }))
+                  );
+                })
+              )
+            )
+          )
+        )
+      );
+    },
+
+    progress: (userId: string) => store.load(userId)
+  };
+};
+
+/**
+ * Ответ /learn в markdown для Claude Code
+ */
+export const formatLearnResponse = (response: LearnResponse): string => {
+  const { resolution, summaries } = response;
+  const progressLine = (s: CourseSummary) =>
+    `${s.completed}/${s.total} уроков` + (s.level ? `, уровень: ${s.level}` : ', уровень не определён');
+
+  switch (resolution.kind) {
+    case 'menu':
+    case 'unknown': {
+      const header = resolution.kind === 'unknown'
+        ? [`Курс «${resolution.argument}» не найден. Доступные курсы:`, '']
+        : ['# 🎓 Курсы', ''];
+
+      return [
+        ...header,
+        ...summaries.map(s => `- **${s.course.title}** — \`/learn ${s.course.slugs[0] ?? s.course.id}\` (${progressLine(s)})`)
+      ].join('\n');
+    }
+
+    case 'course': {
+      const [summary] = summaries;
+      const lines = [
+        `# ${resolution.course.title}`,
+        '',
+        resolution.course.description,
+        '',
+        `Прогресс: ${progressLine(summary)}`,
+        '',
+        ...resolution.course.lessons.map((lesson, i) => `${i + 1}. ${lesson.title} (${lesson.level})`)
+      ];
+
+      if (!summary.level && resolution.course.assessment.length > 0) {
+        lines.push('', `Начните с оценки уровня: ${resolution.course.assessment.length} вопросов.`);
+      } else if (summary.nextLesson) {
+        lines.push('', `Следующий урок: **${summary.nextLesson.title}**`);
+      } else {
+        lines.push('', 'Курс пройден 🎉');
+      }
+
+      return lines.join('\n');
+    }
+
+    case 'lesson':
+      return [
+        `# ${resolution.lesson.title}`,
+        '',
+        resolution.lesson.content,
+        ...(resolution.lesson.quiz.length > 0
+          ? ['', `Квиз: ${resolution.lesson.quiz.length} вопросов, для зачёта нужно ${Math.round(LESSON_PASS_SCORE * 100)}% верных ответов.`]
+          : [])
+      ].join('\n');
+  }
+};
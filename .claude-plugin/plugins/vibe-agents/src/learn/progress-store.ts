@@ -0,0 +1,155 @@
+/**
+ * 💾 Progress Store
+ * Прогресс обучения каждого пользователя в отдельном JSON-файле
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { TaskEither, tryCatch } from 'fp-ts/lib/TaskEither';
+import { Course, CourseSummary, LevelAssessment, Lesson, UserProgress } from './types';
+import { LEVEL_ORDER } from './quiz';
+
+export const DEFAULT_PROGRESS_DIR = join(homedir(), '.vibe-agents', 'learn');
+
+const LevelSchema = z.enum(['beginner', 'intermediate', 'advanced']);
+
+const UserProgressSchema = z.object({
+  userId: z.string(),
+  levels: z.record(z.object({
+    level: LevelSchema,
+    score: z.number(),
+    assessedAt: z.string()
+  })).default({}),
+  lessons: z.record(z.object({
+    completedAt: z.string(),
+    score: z.number()
+  })).default({}),
+  updatedAt: z.string()
+});
+
+export interface ProgressStore {
+  load: (userId: string) => TaskEither<Error, UserProgress>;
+  save: (progress: UserProgress) => TaskEither<Error, UserProgress>;
+}
+
+/**
+ * Имя файла из идентификатора пользователя: читаемая часть без разделителей пути
+ * и спецсимволов плюс хеш точного идентификатора — Alice, alice и a.b/a_b не совпадают
+ * даже на файловой системе без учёта регистра
+ */
+const progressFile = (dir: string, userId: string): string => {
+  const safe = userId.replace(/[^\p{L}\p{N}_-]+/gu, '_').slice(0, 48) || 'default';
+  const hash = createHash('sha256').update(userId).digest('hex').slice(0, 12);
+  return join(dir, `${safe.toLowerCase()}-${hash}.json`);
+};
+
+const readProgress = async (file: string): Promise<string | undefined> => {
+  try {
+    return await readFile(file, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+export const emptyProgress = (userId: string): UserProgress => ({
+  userId,
+  levels: {},
+  lessons: {},
+  updatedAt: new Date().toISOString()
+});
+
+export const createProgressStore = (dir: string = DEFAULT_PROGRESS_DIR): ProgressStore => ({
+  load: (userId: string) => {
+    return tryCatch(
+      async () => {
+        const raw = await readProgress(progressFile(dir, userId));
+
+        // Нового пользователя ещё нет на диске
+        if (raw === undefined) {
+          return emptyProgress(userId);
+        }
+
+        const parsed = UserProgressSchema.safeParse(JSON.parse(raw));
+        if (!parsed.success) {
+          throw new Error(`Invalid progress file for ${userId}: ${parsed.error.message}`);
+        }
+
+        if (parsed.data.userId !== userId) {
+          throw new Error(`Progress file for ${userId} belongs to ${parsed.data.userId}`);
+        }
+
+        return parsed.data;
+      },
+      (error) => error instanceof Error ? error : new Error('Progress loading error: ' + error)
+    );
+  },
+
+  save: (progress: UserProgress) => {
+    return tryCatch(
+      async () => {
+        const saved = { ...progress, updatedAt: new Date().toISOString() };
+        const file = progressFile(dir, progress.userId);
+        await mkdir(dir, { recursive: true });
+        // Запись через временный файл: прерванное сохранение не портит прогресс
+        await writeFile(file + '.tmp', JSON.stringify(saved, null, 2) + '\n', 'utf-8');
+        await rename(file + '.tmp', file);
+        return saved;
+      },
+      (error) => error instanceof Error ? error : new Error('Progress saving error: ' + error)
+    );
+  }
+});
+
+export const recordAssessment = (
+  progress: UserProgress,
+  courseId: string,
+  assessment: LevelAssessment
+): UserProgress => ({
+  ...progress,
+  levels: { ...progress.levels, [courseId]: assessment }
+});
+
+/**
+ * Лучший результат урока сохраняется: повторное прохождение не ухудшает прогресс
+ */
+export const recordLesson = (progress: UserProgress, lessonId: string, score: number): UserProgress => {
+  const previous = progress.lessons[lessonId];
+  if (previous && previous.score >= score) {
+    return progress;
+  }
+
+  return {
+    ...progress,
+    lessons: { ...progress.lessons, [lessonId]: { completedAt: new Date().toISOString(), score } }
+  };
+};
+
+/**
+ * Следующий урок: первый непройденный не ниже уровня пользователя.
+ * Если таких нет — первый непройденный из более простых; undefined — курс пройден
+ */
+export const recommendNextLesson = (course: Course, progress: UserProgress): Lesson | undefined => {
+  const pending = course.lessons.filter(lesson => !progress.lessons[lesson.id]);
+  const level = progress.levels[course.id]?.level;
+
+  if (!level) {
+    return pending[0];
+  }
+
+  const rank = LEVEL_ORDER.indexOf(level);
+  return pending.find(lesson => LEVEL_ORDER.indexOf(lesson.level) >= rank) ?? pending[0];
+};
+
+export const summarizeCourse = (course: Course, progress: UserProgress): CourseSummary => ({
+  course,
+  completed: course.lessons.filter(lesson => progress.lessons[lesson.id]).length,
+  total: course.lessons.length,
+  level: progress.levels[course.id]?.level,
+  nextLesson: recommendNextLesson(course, progress)
+});
@@ -0,0 +1,55 @@
+/**
+ * ✅ Quiz Grading
+ * Проверка ответов и определение уровня по квизу курса
+ */
+
+import { Course, LearnLevel, LevelAssessment, QuizQuestion, QuizResult } from './types';
+
+// Доля верных ответов, с которой урок считается пройденным
+export const LESSON_PASS_SCORE = 0.7;
+
+// Нижняя граница доли верных ответов квиза уровня для каждого уровня
+const LEVEL_THRESHOLDS: Array<{ level: LearnLevel; minScore: number }> = [
+  { level: 'advanced', minScore: 0.8 },
+  { level: 'intermediate', minScore: 0.4 },
+  { level: 'beginner', minScore: 0 }
+];
+
+export const LEVEL_ORDER: LearnLevel[] = ['beginner', 'intermediate', 'advanced'];
+
+/**
+ * Ответы — индексы выбранных вариантов; пропущенный ответ считается неверным
+ */
+export const gradeQuiz = (
+  questions: QuizQuestion[],
+  answers: number[],
+  passScore: number = LESSON_PASS_SCORE
+): QuizResult => {
+  const mistakes = questions
+    .map((question, index) => ({ question, index }))
+    .filter(({ question, index }) => answers[index] !== question.answer)
+    .map(({ question, index }) => ({ question: index, explanation: question.explanation }));
+
+  const total = questions.length;
+  const correct = total - mistakes.length;
+  const score = total > 0 ? Math.round((correct / total) * 100) / 100 : 1;
+
+  return { correct, total, score, passed: score >= passScore, mistakes };
+};
+
+export const levelForScore = (score: number): LearnLevel => {
+  return LEVEL_THRESHOLDS.find(t => score >= t.minScore)!.level;
+};
+
+export const assessLevel = (course: Course, answers: number[]): { result: QuizResult; assessment: LevelAssessment } => {
+  const result = gradeQuiz(course.assessment, answers);
+
+  return {
+    result,
+    assessment: {
+      level: levelForScore(result.score),
+      score: result.score,
+      assessedAt: new Date().toISOString()
+    }
+  };
+};
@@ -0,0 +1,80 @@
+/**
+ * 🧭 Learn Resolver
+ * `/learn <тема>` → курс или урок: идентификаторы, русские слаги и близкие формы слов
+ */
+
+import { stem } from '../nlu/tokenizer';
+import { Course, LearnResolution, Lesson } from './types';
+
+/**
+ * «Создание плагина», «создание_плагина» и «Создание-Плагина» дают один слаг
+ */
+export const normalizeSlug = (value: string): string => {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/[\s_]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+};
+
+const slugStems = (slug: string): string[] => {
+  return normalizeSlug(slug).split('-').filter(Boolean).map(stem);
+};
+
+const courseSlugs = (course: Course): string[] => {
+  return [course.id, course.title, ...course.slugs].map(normalizeSlug);
+};
+
+const lessonSlugs = (lesson: Lesson): string[] => {
+  return [lesson.id, lesson.id.slice(lesson.courseId.length + 1), lesson.title].map(normalizeSlug);
+};
+
+/**
+ * Совпадение по основам слов и их префиксам: «тесты» находит «тестирование»
+ */
+const stemOverlap = (query: string[], candidate: string[]): number => {
+  return query.filter(q => candidate.some(c => c === q || (q.length >= 4 && c.length >= 4 && (c.startsWith(q) || q.startsWith(c))))).length;
+};
+
+const findCourse = (courses: Course[], argument: string): Course | undefined => {
+  const slug = normalizeSlug(argument);
+  const exact = courses.find(course => courseSlugs(course).includes(slug));
+  if (exact) {
+    return exact;
+  }
+
+  const query = slugStems(argument);
+  const scored = courses
+    .map(course => ({
+      course,
+      score: Math.max(0, ...courseSlugs(course).map(s => stemOverlap(query, slugStems(s)) / query.length))
+    }))
+    .filter(c => c.score >= 0.5)
+    .sort((a, b) => b.score - a.score);
+
+  return scored[0]?.course;
+};
+
+export const resolveLearnArgument = (courses: Course[], argument: string = ''): LearnResolution => {
+  if (normalizeSlug(argument).length === 0) {
+    return { kind: 'menu', courses };
+  }
+
+  // `курс/урок` открывает урок внутри курса
+  const [coursePart, lessonPart] = argument.split('/', 2);
+  const course = findCourse(courses, coursePart);
+
+  if (!course) {
+    return { kind: 'unknown', argument, suggestions: courses };
+  }
+
+  if (lessonPart) {
+    const slug = normalizeSlug(lessonPart);
+    const lesson = course.lessons.find(l => lessonSlugs(l).includes(slug));
+    return lesson ? { kind: 'lesson', course, lesson } : { kind: 'course', course };
+  }
+
+  return { kind: 'course', course };
+};
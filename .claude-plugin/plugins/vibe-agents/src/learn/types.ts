@@ -0,0 +1,82 @@
+/**
+ * 🎓 Learn Type Definitions
+ */
+
+export type LearnLevel = 'beginner' | 'intermediate' | 'advanced';
+
+export interface QuizQuestion {
+  question: string;
+  options: string[];
+  // Индекс правильного варианта в options
+  answer: number;
+  explanation?: string;
+}
+
+export interface Lesson {
+  // Полный идентификатор `<курс>/<урок>`: прогресс общий для курсов, которые включают урок
+  id: string;
+  courseId: string;
+  title: string;
+  level: LearnLevel;
+  topics: string[];
+  content: string;
+  quiz: QuizQuestion[];
+}
+
+export interface Course {
+  id: string;
+  title: string;
+  description: string;
+  level: LearnLevel;
+  // Аргументы /learn, которые ведут на курс: `создание-плагина`, `plugin`
+  slugs: string[];
+  lessons: Lesson[];
+  // Короткий квиз для определения уровня
+  assessment: QuizQuestion[];
+}
+
+export interface QuizResult {
+  correct: number;
+  total: number;
+  score: number;
+  passed: boolean;
+  // Номера вопросов с неверным ответом и пояснения к ним
+  mistakes: Array<{ question: number; explanation?: string }>;
+}
+
+export interface LevelAssessment {
+  level: LearnLevel;
+  score: number;
+  assessedAt: string;
+}
+
+export interface LessonProgress {
+  completedAt: string;
+  score: number;
+}
+
+export interface UserProgress {
+  userId: string;
+  levels: Record<string, LevelAssessment>;
+  lessons: Record<string, LessonProgress>;
+  updatedAt: string;
+}
+
+export interface CourseSummary {
+  course: Course;
+  completed: number;
+  total: number;
+  level?: LearnLevel;
+  nextLesson?: Lesson;
+}
+
+export type LearnResolution =
+  | { kind: 'menu'; courses: Course[] }
+  | { kind: 'course'; course: Course }
+  | { kind: 'lesson'; course: Course; lesson: Lesson }
+  | { kind: 'unknown'; argument: string; suggestions: Course[] };
+
+export interface LearnEngineOptions {
+  coursesDir?: string;
+  progressDir?: string;
+}
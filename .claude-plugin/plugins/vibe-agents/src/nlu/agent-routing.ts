@@ -4,40 +4,21 @@
  */
 
 import { TaskEither, left, right } from 'fp-ts/lib/TaskEither';
-import { Intent, Entity, AgentRoute } from './types';
-
-const AGENT_ROUTING_MAP: Record<string, string> = {
-  'create-component': 'vibe-coder',
-  'create-application': 'vibe-lead',
-  'develop-api': 'vibe-coder',
-  'write-tests': 'vibe-tester',
-  'security-audit': 'vibe-security',
-  'setup-ci': 'vibe-devops',
-  'optimize-performance': 'vibe-diagnostics',
-  'refactor-code': 'vibe-critic',
-  'debug-issue': 'vibe-coder',
-  'generate-documentation': 'vibe-knowledge-keeper'
-};
-
-const AGENT_CAPABILITIES: Record<string, string[]> = {
-  'vibe-coder': ['programming', 'React', 'TypeScript', 'Node.js', 'debugging'],
-  'vibe-lead': ['architecture', 'coordination', 'project-planning'],
-  'vibe-tester': ['testing', 'TDD', 'Jest', 'Cypress'],
-  'vibe-security': ['security', 'audit', 'vulnerability'],
-  'vibe-devops': ['CI/CD', 'deployment', 'DevOps'],
-  'vibe-diagnostics': ['performance', 'optimization', 'monitoring'],
-  'vibe-critic': ['code-review', 'refactoring', 'quality'],
-  'vibe-knowledge-keeper': ['documentation', 'knowledge-management']
-};
+import { Intent, Entity, AgentRoute, NLUError } from './types';
+import { noRouteError } from './errors';
+import { agentRegistry } from '../agents/agent-registry';
+import { pickEntity } from './entity-extraction';
+import { getDefaultFramework, getDefaultLanguage } from './conversation';
+import { notifyNLUConfigChange } from './config-events';
 
 export const routeToAgent = (
   intent: Intent,
   entities: Entity[]
-): TaskEither<Error, AgentRoute> => {
-  const agentId = AGENT_ROUTING_MAP[intent.name];
+): TaskEither<NLUError, AgentRoute> => {
+  const agentId = agentRegistry.agentForIntent(intent.name);
   
   if (!agentId) {
-    return left(new Error('No agent found for intent: ' + intent.name));
+    return left(noRouteError(intent.name));
   }
 
   return right({
@@ -50,60 +31,217 @@ export const routeToAgent = (
   });
 };
 
+export interface AgentScore {
+  agentId: string;
+  score: number;
+  capabilityScore: number;
+  load: number;
+  successRate: number;
+  matchedCapabilities: string[];
+  explanation: string[];
+}
+
+export interface AgentStats {
+  load: number;
+  successes: number;
+  failures: number;
+}
+
+interface CapabilityTag {
+  tag: string;
+  weight: number;
+}
+
+// Какие компетенции нужны для намерения и насколько
+const INTENT_CAPABILITIES: Record<string, CapabilityTag[]> = {
+  'create-component': [{ tag: 'programming', weight: 1 }, { tag: 'types', weight: 0.3 }],
+  'create-application': [
+    { tag: 'architecture', weight: 1 },
+    { tag: 'project-planning', weight: 0.5 },
+    { tag: 'programming', weight: 0.5 }
+  ],
+  'develop-api': [
+    { tag: 'programming', weight: 1 },
+    { tag: 'Node.js', weight: 0.5 },
+    { tag: 'specification', weight: 0.3 }
+  ],
+  'write-tests': [{ tag: 'testing', weight: 1 }, { tag: 'TDD', weight: 0.7 }],
+  'security-audit': [
+    { tag: 'security', weight: 1 },
+    { tag: 'audit', weight: 0.8 },
+    { tag: 'vulnerability', weight: 0.5 }
+  ],
+  'setup-ci': [
+    { tag: 'CI/CD', weight: 1 },
+    { tag: 'pipeline', weight: 0.7 },
+    { tag: 'deployment', weight: 0.5 },
+    { tag: 'automation', weight: 0.3 }
+  ],
+  'optimize-performance': [
+    { tag: 'performance', weight: 1 },
+    { tag: 'optimization', weight: 0.8 },
+    { tag: 'monitoring', weight: 0.3 }
+  ],
+  'refactor-code': [
+    { tag: 'refactoring', weight: 1 },
+    { tag: 'code-review', weight: 0.7 },
+    { tag: 'quality', weight: 0.5 }
+  ],
+  'debug-issue': [
+    { tag: 'debugging', weight: 1 },
+    { tag: 'programming', weight: 0.5 },
+    { tag: 'error-tracking', weight: 0.5 }
+  ],
+  'generate-documentation': [
+    { tag: 'documentation', weight: 1 },
+    { tag: 'knowledge-management', weight: 0.5 }
+  ]
+};
+
+// Сущности (React, TypeScript, Express) — сами по себе теги компетенций
+const ENTITY_CAPABILITY_TYPES = ['framework', 'language', 'technology'];
+const ENTITY_CAPABILITY_WEIGHT = 0.5;
+
+// Итоговый счёт: соответствие компетенций важнее загрузки и истории
+const CAPABILITY_WEIGHT = 0.7;
+const LOAD_WEIGHT = 0.15;
+const HISTORY_WEIGHT = 0.15;
+
+// Столько шагов агента одновременно — полная загрузка (max_concurrent_tasks в ARBITRATION.md)
+const AGENT_STEP_CAPACITY = 3;
+
+const AGENT_STATS: Record<string, AgentStats> = {};
+const RUNNING_STEPS: Record<string, number> = {};
+
+/**
+ * Явный маршрут намерения, пока его агент не загружен полностью;
+ * иначе — агент с лучшим счётом по компетенциям, загрузке и истории
+ */
 export const getBestAgent = (
   intent: Intent,
   entities: Entity[],
-  availableAgents: string[]
+  availableAgents: string[] = agentRegistry.list().map(agent => agent.id)
 ): string | null => {
-  const primaryAgent = AGENT_ROUTING_MAP[intent.name];
-  
-  if (!primaryAgent) {
-    return null;
-  }
-  
-  if (availableAgents.includes(primaryAgent)) {
+  const primaryAgent = agentRegistry.agentForIntent(intent.name);
+  const available = primaryAgent !== undefined && availableAgents.includes(primaryAgent);
+
+  if (available && getAgentStats(primaryAgent).load < 1) {
     return primaryAgent;
   }
-  
-  return findBestMatch(intent, availableAgents);
+
+  return findBestMatch(intent, entities, availableAgents) ?? (available ? primaryAgent : null);
 };
 
-const findBestMatch = (intent: Intent, availableAgents: string[]): string | null => {
-  let bestAgent: string | null = null;
-  let bestScore = 0;
-  
-  for (const agentId of availableAgents) {
-    const capabilities = AGENT_CAPABILITIES[agentId] || [];
-    const score = calculateAgentScore(intent, capabilities);
-    
-    if (score > bestScore) {
-      bestScore = score;
-      bestAgent = agentId;
+const findBestMatch = (intent: Intent, entities: Entity[], availableAgents: string[]): string | null => {
+  const [best] = rankAgents(intent, entities, availableAgents);
+  return best?.agentId ?? null;
+};
+
+/**
+ * Агенты с ненулевым соответствием компетенций, по убыванию счёта
+ */
+export const rankAgents = (
+  intent: Intent,
+  entities: Entity[],
+  availableAgents: string[] = agentRegistry.list().map(agent => agent.id)
+): AgentScore[] => {
+  const required = getRequiredCapabilities(intent, entities);
+
+  return availableAgents
+    .map(agentId => calculateAgentScore(agentId, required))
+    .filter(score => score.capabilityScore > 0)
+    .sort((a, b) => b.score - a.score);
+};
+
+export const getRequiredCapabilities = (intent: Intent, entities: Entity[]): CapabilityTag[] => {
+  // Для пользовательских намерений тегом служит само имя намерения
+  const tags = [...(INTENT_CAPABILITIES[intent.name] ?? [{ tag: intent.name, weight: 1 }])];
+
+  for (const entity of entities) {
+    if (ENTITY_CAPABILITY_TYPES.includes(entity.type) && !tags.some(t => sameTag(t.tag, entity.value))) {
+      tags.push({ tag: entity.value, weight: ENTITY_CAPABILITY_WEIGHT * entity.confidence });
     }
   }
-  
-  return bestAgent;
+
+  return tags;
 };
 
-const calculateAgentScore = (intent: Intent, capabilities: string[]): number => {
-  let score = 0;
-  
-  if (capabilities.includes(intent.name)) {
-    score += 1.0;
-  }
-  
-  return score;
+const calculateAgentScore = (agentId: string, required: CapabilityTag[]): AgentScore => {
+  const capabilities = agentRegistry.getCapabilities(agentId);
+  const matched = required.filter(r => capabilities.some(c => sameTag(c, r.tag)));
+
+  const totalWeight = required.reduce((sum, r) => sum + r.weight, 0);
+  const matchedWeight = matched.reduce((sum, r) => sum + r.weight, 0);
+  const capabilityScore = totalWeight > 0 ? matchedWeight / totalWeight : 0;
+
+  const stats = getAgentStats(agentId);
+  // Сглаживание Лапласа: новый агент начинает с 0.5, а не с 0 или 1
+  const successRate = (stats.successes + 1) / (stats.successes + stats.failures + 2);
+
+  const score = capabilityScore * CAPABILITY_WEIGHT + (1 - stats.load) * LOAD_WEIGHT + successRate * HISTORY_WEIGHT;
+
+  return {
+    agentId,
+    score: Math.round(score * 1000) / 1000,
+    capabilityScore: Math.round(capabilityScore * 1000) / 1000,
+    load: stats.load,
+    successRate: Math.round(successRate * 1000) / 1000,
+    matchedCapabilities: matched.map(m => m.tag),
+    explanation: [
+      matched.length > 0
+        ? `capabilities ${matched.map(m => m.tag).join(', ')} cover ${Math.round(capabilityScore * 100)}% of required weight`
+        : 'no matching capabilities',
+      `load ${Math.round(stats.load * 100)}%`,
+      `success rate ${Math.round(successRate * 100)}% over ${stats.successes + stats.failures} runs`
+    ]
+  };
+};
+
+const sameTag = (a: string, b: string): boolean => {
+  return a.toLowerCase() === b.toLowerCase();
+};
+
+export const getAgentStats = (agentId: string): AgentStats => {
+  return AGENT_STATS[agentId] ?? { load: 0, successes: 0, failures: 0 };
+};
+
+export const setAgentLoad = (agentId: string, load: number) => {
+  AGENT_STATS[agentId] = { ...getAgentStats(agentId), load: Math.min(1, Math.max(0, load)) };
+};
+
+/**
+ * Учитывает запущенный шаг агента в его загрузке; возвращает функцию завершения шага
+ */
+export const trackAgentStep = (agentId: string): (() => void) => {
+  RUNNING_STEPS[agentId] = (RUNNING_STEPS[agentId] ?? 0) + 1;
+  setAgentLoad(agentId, RUNNING_STEPS[agentId] / AGENT_STEP_CAPACITY);
+
+  return () => {
+    RUNNING_STEPS[agentId] = Math.max(0, RUNNING_STEPS[agentId] - 1);
+    setAgentLoad(agentId, RUNNING_STEPS[agentId] / AGENT_STEP_CAPACITY);
+  };
+};
+
+export const recordAgentOutcome = (agentId: string, success: boolean) => {
+  const stats = getAgentStats(agentId);
+  AGENT_STATS[agentId] = {
+    ...stats,
+    successes: stats.successes + (success ? 1 : 0),
+    failures: stats.failures + (success ? 0 : 1)
+  };
 };
 
 export const generateTaskFromNLU = (intent: Intent, entities: Entity[]): any => {
-  const framework = entities.find(e => e.type === 'framework')?.value;
-  const language = entities.find(e => e.type === 'language')?.value;
-  const taskType = entities.find(e => e.type === 'taskType')?.value;
+  const framework = pickEntity(entities, 'framework')?.value;
+  const language = pickEntity(entities, 'language')?.value;
+  const taskType = pickEntity(entities, 'taskType')?.value;
+  const target = pickEntity(entities, 'target')?.value;
+  const reference = pickEntity(entities, 'reference')?.value;
   
   const task: any = {
     type: intent.name,
-    framework: framework || 'React',
-    language: language || 'TypeScript',
+    framework: framework || getDefaultFramework(),
+    language: language || getDefaultLanguage(),
     entities,
     generatedFrom: 'NLU',
     originalIntent: intent.name,
@@ -113,54 +251,52 @@ export const generateTaskFromNLU = (intent: Intent, entities: Entity[]): any =>
   if (taskType) {
     task.taskType = taskType;
   }
+
+  // Уточняющий запрос: над чем шла работа в предыдущей реплике
+  if (target) {
+    task.target = target;
+  }
+
+  if (reference) {
+    task.reference = reference;
+  }
   
   return task;
 };
 
 export const getAgentRoutingMap = (): Record<string, string> => {
-  return { ...AGENT_ROUTING_MAP };
+  return agentRegistry.getRoutingMap();
 };
 
 export const addAgentRoute = (intent: string, agentId: string) => {
-  AGENT_ROUTING_MAP[intent] = agentId;
+  agentRegistry.setRoute(intent, agentId);
+  notifyNLUConfigChange('route');
 };
 
 export const removeAgentRoute = (intent: string) => {
-  delete AGENT_ROUTING_MAP[intent];
+  agentRegistry.removeRoute(intent);
+  notifyNLUConfigChange('route');
 };
 
 export const validateAgentRoute = (intent: string, agentId: string): boolean => {
-  return AGENT_ROUTING_MAP[intent] === agentId;
+  return agentRegistry.agentForIntent(intent) === agentId;
 };
 
 export const getAgentsByCapability = (capability: string): string[] => {
-  const agents: string[] = [];
-  
-  for (const [agentId, capabilities] of Object.entries(AGENT_CAPABILITIES)) {
-    if (capabilities.includes(capability)) {
-      agents.push(agentId);
-    }
-  }
-  
-  return agents;
+  return agentRegistry
+    .list()
+    .filter(agent => agent.competencies.includes(capability))
+    .map(agent => agent.id);
 };
 
 export const getAgentCapabilities = (agentId: string): string[] => {
-  return AGENT_CAPABILITIES[agentId] || [];
+  return agentRegistry.getCapabilities(agentId);
 };
 
 export const addAgentCapability = (agentId: string, capability: string) => {
-  if (!AGENT_CAPABILITIES[agentId]) {
-    AGENT_CAPABILITIES[agentId] = [];
-  }
-  
-  if (!AGENT_CAPABILITIES[agentId].includes(capability)) {
-    AGENT_CAPABILITIES[agentId].push(capability);
-  }
+  agentRegistry.addCapability(agentId, capability);
 };
 
 export const removeAgentCapability = (agentId: string, capability: string) => {
-  if (AGENT_CAPABILITIES[agentId]) {
-    AGENT_CAPABILITIES[agentId] = AGENT_CAPABILITIES[agentId].filter(c => c !== capability);
-  }
+  agentRegistry.removeCapability(agentId, capability);
 };
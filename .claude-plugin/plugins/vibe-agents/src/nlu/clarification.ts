@@ -0,0 +1,137 @@
+/**
+ * ❓ Clarification
+ * Structured follow-up questions for low-confidence or ambiguous requests
+ */
+
+import {
+  ClarificationQuestion,
+  ClarificationReason,
+  ClarificationRequest,
+  Entity,
+  Intent,
+  NLULocale,
+  NLUParsing
+} from './types';
+import { rankIntents } from './intent-recognition';
+import { tokenize } from './tokenizer';
+import { detectLocale, getClarificationText, getIntentLabel, getIntentLabels } from './locales';
+
+const MAX_CANDIDATES = 3;
+const MAX_FALLBACK_OPTIONS = 5;
+
+// Два лидера ближе этого порога — запрос неоднозначен
+const AMBIGUITY_MARGIN = 0.05;
+
+// Сущности, о которых стоит спросить вместе с уточнением намерения.
+// Сами по себе они уточнения не требуют: есть глобальные значения по умолчанию
+const REQUIRED_ENTITIES: Record<string, string[]> = {
+  'create-component': ['framework'],
+  'create-application': ['framework'],
+  'develop-api': ['language']
+};
+
+/**
+ * null, если разбор достаточно уверенный и полный для маршрутизации
+ */
+export const needsClarification = (
+  parsing: NLUParsing,
+  minConfidence: number,
+  routable: boolean
+): ClarificationRequest | null => {
+  const locale = parsing.locale ?? detectLocale(parsing.originalText);
+  const candidates = collectCandidates(parsing.originalText, parsing.intent, locale);
+  const missing = (REQUIRED_ENTITIES[parsing.intent.name] ?? [])
+    .filter(type => !parsing.entities.some((e: Entity) => e.type === type));
+
+  // Второе намерение составного запроса («создай компонент и напиши тесты») —
+  // не альтернатива основному: оно уходит своему агенту и неоднозначности не создаёт.
+  // Порог уверенности основного намерения при этом проверяется как обычно
+  const [first, second] = candidates;
+  const additional = (parsing.additionalIntents ?? []).some(i => i.name === second?.name);
+  const ambiguous = second !== undefined && !additional && first.confidence - second.confidence < AMBIGUITY_MARGIN;
+
+  const reason: ClarificationReason | null = !routable
+    ? 'unknown-intent'
+    : parsing.intent.confidence < minConfidence
+      ? 'low-confidence'
+      : ambiguous
+        ? 'ambiguous'
+        : null;
+
+  if (!reason) {
+    return null;
+  }
+
+  return buildClarification(parsing.originalText, reason, parsing.intent.confidence, candidates, missing, locale);
+};
+
+export const buildClarification = (
+  originalText: string,
+  reason: ClarificationReason,
+  confidence: number,
+  candidates: Intent[],
+  missingEntities: string[],
+  locale: NLULocale = detectLocale(originalText)
+): ClarificationRequest => {
+  const labels = getIntentLabels(locale);
+  const questions: ClarificationQuestion[] = [];
+
+  // Слабых кандидатов дополняем частыми намерениями, чтобы было из чего выбрать
+  const optionCount = candidates.length > 0 ? MAX_CANDIDATES : MAX_FALLBACK_OPTIONS;
+  const options = [
+    ...candidates.map(c => c.name),
+    ...Object.keys(labels).filter(name => !candidates.some(c => c.name === name))
+  ].slice(0, Math.max(optionCount, candidates.length));
+
+  questions.push({
+    id: 'intent',
+    kind: 'intent',
+    text: getClarificationText(locale, { reason }) + ' ' +
+      options.map((name, i) => `${i + 1}) ${getIntentLabel(name, locale)}`).join('; '),
+    options
+  });
+
+  for (const type of missingEntities) {
+    questions.push({
+      id: type,
+      kind: 'entity',
+      text: getClarificationText(locale, { entity: type }) ?? `${type}?`
+    });
+  }
+
+  return { originalText, locale, reason, confidence, candidates, missingEntities, questions };
+};
+
+/**
+ * Ответ выбирает намерение номером варианта, его именем или подписью
+ */
+export const matchIntentAnswer = (clarification: ClarificationRequest, answer: string): string | null => {
+  const options = clarification.questions.find(q => q.kind === 'intent')?.options ?? [];
+  const normalized = answer.trim().toLowerCase();
+
+  const index = Number.parseInt(normalized, 10);
+  if (/^\d+\)?$/.test(normalized) && index >= 1 && index <= options.length) {
+    return options[index - 1];
+  }
+
+  const answerTokens = tokenize(normalized).map(t => t.stem).join(' ');
+  return options.find(name =>
+    name === normalized ||
+    tokenize(getIntentLabel(name, clarification.locale)).map(t => t.stem).join(' ') === answerTokens
+  ) ?? null;
+};
+
+export const mergeClarificationAnswer = (clarification: ClarificationRequest, answer: string): string => {
+  return `${clarification.originalText}. ${answer.trim()}`;
+};
+
+const collectCandidates = (text: string, intent: Intent, locale: NLULocale): Intent[] => {
+  const labels = getIntentLabels(locale);
+  const ranked = rankIntents(text, locale).map(({ name, confidence, description }) => ({ name, confidence, description }));
+  const merged = [intent, ...ranked.filter(c => c.name !== intent.name)];
+
+  return merged
+    .filter(c => c.name in labels || ranked.some(r => r.name === c.name))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_CANDIDATES);
+};
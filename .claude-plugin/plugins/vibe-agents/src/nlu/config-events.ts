@@ -0,0 +1,23 @@
+/**
+ * 📣 NLU Config Events
+ * Notifies subscribers when intents, entities, routes or locale packs change at runtime
+ */
+
+export type NLUConfigChange = 'intent' | 'entity' | 'route' | 'locale';
+
+type Listener = (change: NLUConfigChange) => void;
+
+const listeners = new Set<Listener>();
+
+export const onNLUConfigChange = (listener: Listener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const notifyNLUConfigChange = (change: NLUConfigChange) => {
+  for (const listener of listeners) {
+    listener(change);
+  }
+};
@@ -0,0 +1,144 @@
+/**
+ * 💬 Conversation Context
+ * Follow-up resolution from NLUContext history and defaults from preferences/project
+ */
+
+import { Entity, EntityOrigin, Intent, NLUContext, NLUParsing } from './types';
+import { tokenize } from './tokenizer';
+import { extractEntities, pickEntity } from './entity-extraction';
+import { rankIntents } from './intent-recognition';
+import { detectLocale, getMarkers } from './locales';
+
+export interface ConversationState {
+  followUp: boolean;
+  previousRequest?: string;
+  previousIntent?: Intent;
+  carriedEntities: Entity[];
+}
+
+const HISTORY_DEPTH = 5;
+
+const CONVERSATION_CONFIDENCE = 0.8;
+const PROJECT_CONFIDENCE = 0.7;
+const PREFERENCES_CONFIDENCE = 0.6;
+
+// Намерение, унаследованное от предыдущей реплики, чуть менее надёжно
+const INHERITED_INTENT_DECAY = 0.9;
+
+const DEFAULT_FRAMEWORK = 'React';
+const DEFAULT_LANGUAGE = 'TypeScript';
+
+// «теперь добавь тесты к нему», «also add docs for it» — маркеры берутся из языковых пакетов
+export const isFollowUp = (text: string): boolean => {
+  const markers = getMarkers(detectLocale(text), 'followUp');
+  return tokenize(text).some(token => markers.includes(token.normalized));
+};
+
+/**
+ * Для уточняющего запроса из последних реплик пользователя переносятся
+ * фреймворк, язык и артефакт, над которым шла работа (`target`)
+ */
+export const resolveConversation = (text: string, context?: NLUContext): ConversationState => {
+  const history = (context?.conversationHistory ?? [])
+    .filter(turn => turn.role === 'user' && turn.content.trim() !== text.trim())
+    .slice(-HISTORY_DEPTH)
+    .reverse();
+
+  const followUp = history.length > 0 && isFollowUp(text);
+  if (!followUp) {
+    return { followUp, carriedEntities: [] };
+  }
+
+  const [previous] = history;
+  const carried: Entity[] = [];
+
+  for (const type of ['framework', 'language']) {
+    const found = history
+      .map(turn => pickEntity(extractEntities(turn.content), type))
+      .find(entity => entity !== null);
+
+    if (found) {
+      carried.push(fromOrigin(found.type, found.value, 'conversation', CONVERSATION_CONFIDENCE));
+    }
+  }
+
+  const artifact = pickEntity(extractEntities(previous.content), 'taskType');
+  if (artifact) {
+    carried.push(fromOrigin('target', artifact.value, 'conversation', CONVERSATION_CONFIDENCE));
+  }
+
+  carried.push(fromOrigin('reference', previous.content, 'conversation', CONVERSATION_CONFIDENCE));
+
+  const [previousIntent] = rankIntents(previous.content);
+
+  return {
+    followUp,
+    previousRequest: previous.content,
+    previousIntent: previousIntent
+      ? {
+          name: previousIntent.name,
+          confidence: previousIntent.confidence * INHERITED_INTENT_DECAY,
+          description: previousIntent.description
+        }
+      : undefined,
+    carriedEntities: carried
+  };
+};
+
+/**
+ * Недостающие сущности дополняются по приоритету:
+ * текст → предыдущие реплики → проект → предпочтения пользователя.
+ * Проект важнее предпочтений: в Vue-репозитории React-компонент бесполезен
+ */
+export const applyContextDefaults = (
+  entities: Entity[],
+  context: NLUContext | undefined,
+  conversation: ConversationState
+): Entity[] => {
+  const result = entities.map(e => (e.origin ? e : { ...e, origin: 'text' as const }));
+  const has = (type: string) => result.some(e => e.type === type);
+
+  for (const carried of conversation.carriedEntities) {
+    if (!has(carried.type)) {
+      result.push(carried);
+    }
+  }
+
+  const project = context?.projectContext;
+  const preferences = context?.userPreferences;
+
+  const fallbacks: Array<[string, string | undefined, EntityOrigin, number]> = [
+    ['framework', project?.framework, 'project', PROJECT_CONFIDENCE],
+    ['language', project?.language, 'project', PROJECT_CONFIDENCE],
+    ['framework', preferences?.preferredFramework, 'preferences', PREFERENCES_CONFIDENCE],
+    ['language', preferences?.preferredLanguage, 'preferences', PREFERENCES_CONFIDENCE]
+  ];
+
+  for (const [type, value, origin, confidence] of fallbacks) {
+    if (value && !has(type)) {
+      result.push(fromOrigin(type, value, origin, confidence));
+    }
+  }
+
+  return result;
+};
+
+export const enrichParsing = (parsing: NLUParsing, context?: NLUContext): NLUParsing => {
+  const conversation = resolveConversation(parsing.originalText, context);
+
+  return {
+    ...parsing,
+    entities: applyContextDefaults(parsing.entities, context, conversation)
+  };
+};
+
+export const getDefaultFramework = (): string => DEFAULT_FRAMEWORK;
+
+export const getDefaultLanguage = (): string => DEFAULT_LANGUAGE;
+
+const fromOrigin = (type: string, value: string, origin: EntityOrigin, confidence: number): Entity => ({
+  type,
+  value,
+  confidence,
+  origin
+});
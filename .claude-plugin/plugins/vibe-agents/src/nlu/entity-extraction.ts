@@ -4,124 +4,241 @@
  */
 
 import { TaskEither, right } from 'fp-ts/lib/TaskEither';
-import { Entity } from './types';
+import { Entity, NLULocale } from './types';
+import { Token, tokenize, stemPhrase, findPhrase } from './tokenizer';
+import { notifyNLUConfigChange } from './config-events';
+import { detectLocale, getLocaleEntities, getMarkers } from './locales';
 
-const ENTITY_PATTERNS = {
+export interface EntityPattern {
+  name: string;
+  patterns: string[];
+  ambiguous?: string[];
+}
+
+interface EntityMatch {
+  type: string;
+  value: string;
+  alias: string;
+  ambiguous: boolean;
+  start: number;
+  end: number;
+  firstToken: number;
+  tokenCount: number;
+}
+
+const ENTITY_CONFIDENCE = 0.9;
+const AMBIGUOUS_SUPPORTED_CONFIDENCE = 0.75;
+const AMBIGUOUS_CONFIDENCE = 0.4;
+const MIN_ENTITY_CONFIDENCE = 0.5;
+
+// Однозначный фреймворк или технология рядом подтверждают неоднозначный алиас:
+// «Next с React». Язык не подтверждает: «next step in javascript»
+const CONTEXT_TYPES = ['framework', 'technology'];
+
+// Названия технологий одинаковы во всех языках; транслитерации («реакт») — в пакетах locales/
+const ENTITY_PATTERNS: Record<string, EntityPattern[]> = {
   framework: [
-    { name: 'React', patterns: ['react', 'реакт', 'реакт.js'] },
-    { name: 'Vue', patterns: ['vue', 'вью', 'vue.js'] },
-    { name: 'Angular', patterns: ['angular', 'ангуляр', 'angular.js'] },
-    { name: 'Next.js', patterns: ['next.js', 'next', 'некст'] },
-    { name: 'Nuxt', patterns: ['nuxt', 'нукс'] },
-    { name: 'Svelte', patterns: ['svelte', 'свилт'] },
-    { name: 'Remix', patterns: ['remix', 'ремикс'] },
-    { name: 'Astro', patterns: ['astro', 'астро'] }
+    { name: 'React', patterns: ['react'] },
+    { name: 'Vue', patterns: ['vue', 'vue.js'] },
+    { name: 'Angular', patterns: ['angular', 'angular.js'] },
+    { name: 'Next.js', patterns: ['next.js', 'next'], ambiguous: ['next'] },
+    { name: 'Nuxt', patterns: ['nuxt'] },
+    { name: 'Svelte', patterns: ['svelte'] },
+    { name: 'Remix', patterns: ['remix'], ambiguous: ['remix'] },
+    { name: 'Astro', patterns: ['astro'], ambiguous: ['astro'] }
   ],
   language: [
-    { name: 'TypeScript', patterns: ['typescript', 'ts', 'тайпскрипт'] },
-    { name: 'JavaScript', patterns: ['javascript', 'js', 'джаваскрипт'] },
-    { name: 'Python', patterns: ['python', 'питон'] },
-    { name: 'Go', patterns: ['go', 'golang', 'го'] },
-    { name: 'Rust', patterns: ['rust', 'раст'] },
-    { name: 'Java', patterns: ['java', 'джава'] },
-    { name: 'C#', patterns: ['c#', 'csharp', 'си шарп'] }
+    { name: 'TypeScript', patterns: ['typescript', 'ts'] },
+    { name: 'JavaScript', patterns: ['javascript', 'js'] },
+    { name: 'Python', patterns: ['python'] },
+    { name: 'Go', patterns: ['go', 'golang'], ambiguous: ['go'] },
+    { name: 'Rust', patterns: ['rust'] },
+    { name: 'Java', patterns: ['java'] },
+    { name: 'C#', patterns: ['c#', 'csharp'] }
   ],
   taskType: [
-    { name: 'component', patterns: ['компонент', 'component', 'кнопка', 'button', 'форма', 'form'] },
-    { name: 'application', patterns: ['приложение', 'application', 'сайт', 'site'] },
-    { name: 'api', patterns: ['api', 'сервер', 'server', 'endpoint'] },
-    { name: 'tests', patterns: ['тесты', 'tests', 'testing'] },
-    { name: 'hook', patterns: ['хук', 'hook', 'useEffect', 'useState'] }
+    { name: 'api', patterns: ['api'] },
+    { name: 'hook', patterns: ['useEffect', 'useState'] }
   ],
   technology: [
-    { name: 'Express', patterns: ['express', 'экспресс'] },
+    { name: 'Express', patterns: ['express'], ambiguous: ['express'] },
     { name: 'FastAPI', patterns: ['fastapi', 'fast api'] },
-    { name: 'Django', patterns: ['django', 'джанго'] },
-    { name: 'Spring', patterns: ['spring', 'спринг'] },
-    { name: 'MongoDB', patterns: ['mongodb', 'монго'] },
+    { name: 'Django', patterns: ['django'] },
+    { name: 'Spring', patterns: ['spring'], ambiguous: ['spring'] },
+    { name: 'MongoDB', patterns: ['mongodb'] },
     { name: 'PostgreSQL', patterns: ['postgresql', 'postgres'] },
-    { name: 'MySQL', patterns: ['mysql', 'майскюэль'] },
-    { name: 'Redis', patterns: ['redis', 'редис'] }
+    { name: 'MySQL', patterns: ['mysql'] },
+    { name: 'Redis', patterns: ['redis'] }
   ]
 };
 
-export const extractEntities = (text: string, intent?: any): Entity[] => {
-  const lowerText = text.toLowerCase();
-  const entities: Entity[] = [];
+export const extractEntities = (text: string, locale: NLULocale = detectLocale(text)): Entity[] => {
+  const tokens = tokenize(text);
+  return resolveMatches(findMatches(tokens, entityPatternsFor(locale)), tokens, getMarkers(locale, 'tech'));
+};
+
+export const extractFramework = (text: string): Entity | null => {
+  return pickEntity(extractEntities(text), 'framework');
+};
+
+export const extractLanguage = (text: string): Entity | null => {
+  return pickEntity(extractEntities(text), 'language');
+};
+
+/**
+ * Самая уверенная сущность типа, если она не ниже порога
+ */
+export const pickEntity = (entities: Entity[], type: string): Entity | null => {
+  const candidates = entities
+    .filter(e => e.type === type && e.confidence >= MIN_ENTITY_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence);
+
+  return candidates[0] ?? null;
+};
+
+/**
+ * Общие шаблоны, дополненные синонимами из языковых пакетов
+ */
+const entityPatternsFor = (locale: NLULocale): Record<string, EntityPattern[]> => {
+  const merged: Record<string, EntityPattern[]> = {};
 
-  // Extract entities for each type
   for (const [type, patterns] of Object.entries(ENTITY_PATTERNS)) {
+    merged[type] = patterns.map(pattern => ({ ...pattern }));
+  }
+
+  for (const [type, patterns] of Object.entries(getLocaleEntities(locale))) {
+    merged[type] ??= [];
+
     for (const pattern of patterns) {
-      if (pattern.patterns.some(p => lowerText.includes(p))) {
-        entities.push({
-          type,
-          value: pattern.name,
-          confidence: 0.9
-        });
+      const existing = merged[type].find(p => p.name === pattern.name);
+      if (existing) {
+        existing.patterns = [...existing.patterns, ...pattern.patterns];
+        existing.ambiguous = [...(existing.ambiguous ?? []), ...(pattern.ambiguous ?? [])];
+      } else {
+        merged[type].push({ ...pattern });
       }
     }
   }
 
-  return entities;
+  return merged;
 };
 
-export const extractFramework = (text: string): Entity | null => {
-  const lowerText = text.toLowerCase();
-  
-  for (const framework of ENTITY_PATTERNS.framework) {
-    if (framework.patterns.some(p => lowerText.includes(p))) {
-      return {
-        type: 'framework',
-        value: framework.name,
-        confidence: 0.95
-      };
+const findMatches = (tokens: Token[], entityPatterns: Record<string, EntityPattern[]>): EntityMatch[] => {
+  const matches: EntityMatch[] = [];
+
+  for (const [type, patterns] of Object.entries(entityPatterns)) {
+    for (const pattern of patterns) {
+      for (const alias of pattern.patterns) {
+        const stems = stemPhrase(alias);
+
+        for (const position of findPhrase(tokens, stems)) {
+          matches.push({
+            type,
+            value: pattern.name,
+            alias,
+            ambiguous: pattern.ambiguous?.includes(alias) ?? false,
+            start: tokens[position].start,
+            end: tokens[position + stems.length - 1].end,
+            firstToken: position,
+            tokenCount: stems.length
+          });
+        }
+      }
     }
   }
-  
-  return null;
+
+  return matches;
 };
 
-export const extractLanguage = (text: string): Entity | null => {
-  const lowerText = text.toLowerCase();
-  
-  for (const language of ENTITY_PATTERNS.language) {
-    if (language.patterns.some(p => lowerText.includes(p))) {
-      return {
-        type: 'language',
-        value: language.name,
-        confidence: 0.95
-      };
+/**
+ * Пересекающиеся совпадения: выигрывает более длинное, затем однозначное.
+ * Одно значение сущности попадает в результат один раз (первое вхождение)
+ */
+const resolveMatches = (matches: EntityMatch[], tokens: Token[], techMarkers: string[]): Entity[] => {
+  const ordered = [...matches].sort((a, b) =>
+    (b.end - b.start) - (a.end - a.start) ||
+    Number(a.ambiguous) - Number(b.ambiguous) ||
+    a.start - b.start
+  );
+
+  const accepted: EntityMatch[] = [];
+  for (const match of ordered) {
+    const overlaps = accepted.some(m => match.start < m.end && m.start < match.end);
+    const duplicate = accepted.some(m => m.type === match.type && m.value === match.value);
+
+    if (!overlaps && !duplicate) {
+      accepted.push(match);
     }
   }
-  
-  return null;
+
+  const hasContext = (match: EntityMatch): boolean => {
+    const token = tokens[match.firstToken];
+    const previous = tokens[match.firstToken - 1];
+
+    return (
+      accepted.some(m => m !== match && !m.ambiguous && CONTEXT_TYPES.includes(m.type)) ||
+      // «API на Go», «built with Next» — предлог перед алиасом (markers.tech) указывает на технологию
+      (previous !== undefined && techMarkers.includes(previous.normalized)) ||
+      // Заглавная буква не в начале предложения: «written in Go»
+      (match.firstToken > 0 && /^\p{Lu}/u.test(token.text))
+    );
+  };
+
+  return accepted
+    .sort((a, b) => a.start - b.start)
+    .map(match => ({
+      type: match.type,
+      value: match.value,
+      confidence: !match.ambiguous
+        ? ENTITY_CONFIDENCE
+        : hasContext(match) ? AMBIGUOUS_SUPPORTED_CONFIDENCE : AMBIGUOUS_CONFIDENCE,
+      start: match.start,
+      end: match.end
+    }));
 };
 
-export const getAllEntities = (): Record<string, any[]> => {
+const BUILTIN_ENTITY_PATTERNS = new Set(Object.values(ENTITY_PATTERNS).flat());
+
+export const getAllEntities = (): Record<string, EntityPattern[]> => {
   return ENTITY_PATTERNS;
 };
 
-export const addCustomEntity = (type: string, name: string, patterns: string[]) => {
+export const getCustomEntities = (): Record<string, EntityPattern[]> => {
+  const custom: Record<string, EntityPattern[]> = {};
+
+  for (const [type, patterns] of Object.entries(ENTITY_PATTERNS)) {
+    const added = patterns.filter(pattern => !BUILTIN_ENTITY_PATTERNS.has(pattern));
+    if (added.length > 0) {
+      custom[type] = added;
+    }
+  }
+
+  return custom;
+};
+
+export const addCustomEntity = (type: string, name: string, patterns: string[], ambiguous?: string[]) => {
   if (!ENTITY_PATTERNS[type]) {
     ENTITY_PATTERNS[type] = [];
   }
   
-  ENTITY_PATTERNS[type].push({ name, patterns });
+  ENTITY_PATTERNS[type].push({ name, patterns, ambiguous });
+  notifyNLUConfigChange('entity');
 };
 
 export const removeEntity = (type: string, name: string) => {
   if (ENTITY_PATTERNS[type]) {
     ENTITY_PATTERNS[type] = ENTITY_PATTERNS[type].filter(e => e.name !== name);
+    notifyNLUConfigChange('entity');
   }
 };
 
-export const getEntitySuggestions = (text: string): Entity[] => {
-  const lowerText = text.toLowerCase();
+export const getEntitySuggestions = (text: string, locale: NLULocale = detectLocale(text)): Entity[] => {
+  const tokens = tokenize(text);
   const suggestions: Entity[] = [];
 
-  for (const [type, patterns] of Object.entries(ENTITY_PATTERNS)) {
+  for (const [type, patterns] of Object.entries(entityPatternsFor(locale))) {
     for (const pattern of patterns) {
-      const similarity = calculateSimilarity(lowerText, pattern.patterns);
+      const similarity = calculateSimilarity(tokens, pattern.patterns);
       
       if (similarity > 0.5) {
         suggestions.push({
@@ -136,11 +253,17 @@ export const getEntitySuggestions = (text: string): Entity[] => {
   return suggestions.sort((a, b) => b.confidence - a.confidence);
 };
 
-const calculateSimilarity = (text: string, patterns: string[]): number => {
+const calculateSimilarity = (tokens: Token[], patterns: string[]): number => {
   let maxSimilarity = 0;
   
   for (const pattern of patterns) {
-    const similarity = text.includes(pattern) ? 0.8 : 0;
+    const stems = stemPhrase(pattern);
+    const exact = findPhrase(tokens, stems).length > 0;
+    // Совпадение по началу слова: «реактивный» → React
+    const prefix = stems.length === 1 && stems[0].length >= 3 &&
+      tokens.some(t => t.normalized.startsWith(stems[0]));
+
+    const similarity = exact ? 0.8 : prefix ? 0.55 : 0;
     maxSimilarity = Math.max(maxSimilarity, similarity);
   }
   
@@ -0,0 +1,172 @@
+/**
+ * 🚨 NLU Errors
+ * Typed failures of the NLU and routing pipeline with user-facing messages
+ */
+
+import {
+  ClarificationRequest,
+  NLUCancelledError,
+  NLUError,
+  NLUErrorKind,
+  NLULocale,
+  NLULowConfidenceError,
+  NLUNoRouteError,
+  NLUParseError,
+  NLUProviderError,
+  NLUTimeoutError,
+  NLUUnknownIntentError,
+  NLUValidationError
+} from './types';
+import { DEFAULT_LOCALE } from './locales';
+
+const NLU_ERROR_KINDS: NLUErrorKind[] = [
+  'validation',
+  'provider',
+  'parse',
+  'unknown-intent',
+  'no-route',
+  'low-confidence',
+  'timeout',
+  'cancelled'
+];
+
+const createError = <E extends NLUError>(message: string, payload: Omit<E, keyof Error>): E => {
+  return Object.assign(new Error(message), payload) as E;
+};
+
+export const validationError = (
+  reason: NLUValidationError['reason'],
+  length: number,
+  limit?: number
+): NLUValidationError => {
+  const messages: Record<NLUValidationError['reason'], string> = {
+    'empty': 'Empty input',
+    'too-long': `Input too long (max ${limit} chars)`,
+    'too-short': `Input too short (min ${limit} chars)`
+  };
+
+  return createError<NLUValidationError>(messages[reason], { kind: 'validation', reason, length, limit });
+};
+
+export const providerError = (provider: string, message: string, status?: number): NLUProviderError => {
+  return createError<NLUProviderError>(message, { kind: 'provider', provider, status });
+};
+
+export const parseError = (label: string, raw: string, issues: string[]): NLUParseError => {
+  return createError<NLUParseError>(`Invalid ${label} response: ${issues.join('; ')}`, { kind: 'parse', raw, issues });
+};
+
+export const unknownIntentError = (text: string, clarification?: ClarificationRequest): NLUUnknownIntentError => {
+  return createError<NLUUnknownIntentError>('Unable to recognize intent: ' + text, {
+    kind: 'unknown-intent',
+    text,
+    clarification
+  });
+};
+
+export const noRouteError = (intent: string): NLUNoRouteError => {
+  return createError<NLUNoRouteError>('No agent found for intent: ' + intent, { kind: 'no-route', intent });
+};
+
+export const lowConfidenceError = (
+  clarification: ClarificationRequest,
+  minConfidence: number
+): NLULowConfidenceError => {
+  return createError<NLULowConfidenceError>(
+    `Clarification needed (${clarification.reason}): confidence ${clarification.confidence}`,
+    { kind: 'low-confidence', confidence: clarification.confidence, minConfidence, clarification }
+  );
+};
+
+export const timeoutError = (timeoutMs: number): NLUTimeoutError => {
+  return createError<NLUTimeoutError>(`NLU timeout after ${timeoutMs}ms`, { kind: 'timeout', timeoutMs });
+};
+
+export const cancelledError = (): NLUCancelledError => {
+  return createError<NLUCancelledError>('NLU cancelled', { kind: 'cancelled' });
+};
+
+export const isNLUError = (error: unknown): error is NLUError => {
+  return error instanceof Error && NLU_ERROR_KINDS.includes((error as NLUError).kind);
+};
+
+/**
+ * Та же ошибка с другим текстом: нужна для префиксов вроде «NLU Error: »
+ */
+export const withMessage = <E extends NLUError>(error: E, message: string): E => {
+  return Object.assign(new Error(message), { ...error, message }) as E;
+};
+
+/**
+ * Любая ошибка провайдера или сети, ещё не попавшая в таксономию
+ */
+export const toNLUError = (error: unknown, provider: string): NLUError => {
+  if (isNLUError(error)) {
+    return error;
+  }
+
+  return providerError(provider, error instanceof Error ? error.message : String(error));
+};
+
+type UserMessages = {
+  [K in NLUErrorKind]: Record<'ru' | 'en', (error: Extract<NLUError, { kind: K }>) => string>;
+};
+
+const USER_MESSAGES: UserMessages = {
+  'validation': {
+    ru: (error) =>
+      error.reason === 'empty' ? 'Опишите задачу после /task.'
+        : error.reason === 'too-long' ? `Описание слишком длинное: ${error.length} символов, максимум ${error.limit}.`
+          : `Описание слишком короткое: нужно хотя бы ${error.limit} символа.`,
+    en: (error) =>
+      error.reason === 'empty' ? 'Describe the task after /task.'
+        : error.reason === 'too-long' ? `The description is too long: ${error.length} characters, max ${error.limit}.`
+          : `The description is too short: at least ${error.limit} characters are required.`
+  },
+  'provider': {
+    ru: (error) =>
+      `Сервис ИИ недоступен${error.status ? ` (HTTP ${error.status})` : ''}. Повторите позже или используйте VIBE_NLU_POLICY=rules-only.`,
+    en: (error) =>
+      `The AI service is unavailable${error.status ? ` (HTTP ${error.status})` : ''}. Retry later or set VIBE_NLU_POLICY=rules-only.`
+  },
+  'parse': {
+    ru: () => 'Сервис ИИ вернул некорректный ответ. Попробуйте переформулировать задачу.',
+    en: () => 'The AI service returned an invalid response. Try rephrasing the task.'
+  },
+  'unknown-intent': {
+    ru: () => 'Не удалось понять задачу. Уточните, что нужно сделать: создать компонент, написать тесты, настроить CI/CD…',
+    en: () => 'Could not understand the task. Please clarify: create a component, write tests, set up CI/CD…'
+  },
+  'no-route': {
+    ru: (error) => `Нет агента для задачи «${error.intent}».`,
+    en: (error) => `No agent handles "${error.intent}".`
+  },
+  'low-confidence': {
+    ru: (error) =>
+      error.clarification.questions[0]?.text ?? 'Уточните задачу.',
+    en: (error) =>
+      error.clarification.questions[0]?.text ?? 'Please clarify the task.'
+  },
+  'timeout': {
+    ru: (error) => `Сервис ИИ не ответил за ${Math.ceil(error.timeoutMs / 1000)} с. Повторите попытку.`,
+    en: (error) => `The AI service did not respond within ${Math.ceil(error.timeoutMs / 1000)}s. Please retry.`
+  },
+  'cancelled': {
+    ru: () => 'Задача отменена.',
+    en: () => 'The task was cancelled.'
+  }
+};
+
+/**
+ * Сообщение для пользователя /task; неизвестные ошибки показываются как есть
+ */
+export const formatNLUError = (error: Error, locale: NLULocale = 'ru'): string => {
+  if (!isNLUError(error)) {
+    return error.message;
+  }
+
+  // Для языков без переводов сообщений — английский
+  const messages = USER_MESSAGES[error.kind] as Record<NLULocale, (error: NLUError) => string>;
+  const format = messages[locale] ?? messages[DEFAULT_LOCALE];
+  return format(error);
+};
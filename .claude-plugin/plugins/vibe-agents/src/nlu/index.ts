@@ -9,3 +9,13 @@ export * from './nlu-service';
 export * from './intent-recognition';
 export * from './entity-extraction';
 export * from './agent-routing';
+export * from './providers';
+export * from './tokenizer';
+export * from './conversation';
+export * from './project-scanner';
+export * from './clarification';
+export * from './nlu-cache';
+export * from './config-events';
+export * from './response-schemas';
+export * from './errors';
+export * from './locales';
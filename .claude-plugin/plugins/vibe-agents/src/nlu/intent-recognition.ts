@@ -3,120 +3,204 @@
  * Pattern-based + AI-powered intent detection
  */
 
-import { TaskEither, right, left } from 'fp-ts/lib/TaskEither';
+import { TaskEither, right, left, map } from 'fp-ts/lib/TaskEither';
 import { pipe } from 'fp-ts/lib/function';
-import { Intent } from './types';
-
-const INTENT_PATTERNS = {
-  'create-component': {
-    keywords: [
-      'создай', 'создать', 'сделай', 'сделать', 'напиши', 'написать',
-      'компонент', 'component', 'кнопку', 'форму', 'карточку',
-      'button', 'form', 'card', 'modal'
-    ],
-    confidence: 0.85
-  },
-  'create-application': {
-    keywords: [
-      'приложение', 'application', 'сайт', 'веб-сайт', 'web',
-      'SPA', 'приложение на', 'сайт на', 'проект',
-      'проект на', 'app'
-    ],
-    confidence: 0.9
-  },
-  'develop-api': {
-    keywords: [
-      'API', 'сервер', 'endpoint', 'бэкенд', 'backend', 'REST', 'GraphQL',
-      'API на', 'сервер на', 'бэкенд на', 'сервер для', 'API для'
-    ],
-    confidence: 0.95
-  },
-  'write-tests': {
-    keywords: [
-      'тесты', 'tests', 'тестирование', 'testing', 'написать тесты',
-      'unit тесты', 'integration тесты', 'e2e тесты',
-      'Jest', 'Vitest', 'Cypress', 'тест на'
-    ],
-    confidence: 0.95
-  },
-  'security-audit': {
-    keywords: [
-      'аудит', 'audit', 'безопасность', 'security', 'проверь безопасность',
-      'scan security', 'vulnerability', 'уязвимость'
-    ],
-    confidence: 0.98
-  },
-  'setup-ci': {
-    keywords: [
-      'CI', 'CD', 'pipeline', 'пайплайн', 'настроить CI', 'настроить CD',
-      'GitHub Actions', 'GitLab CI', 'CI/CD', 'автоматизация'
-    ],
-    confidence: 0.9
-  },
-  'optimize-performance': {
-    keywords: [
-      'оптимизируй', 'оптимизация', 'optimize', 'performance', 'производительность',
-      'ускорить', 'быстрее', 'lazy loading', 'мемоизация'
-    ],
-    confidence: 0.88
-  },
-  'refactor-code': {
-    keywords: [
-      'рефакторинг', 'refactor', 'улучши код', 'оптимизируй код',
-      'чистый код', 'clean code', 'для код'
-    ],
-    confidence: 0.92
-  },
-  'debug-issue': {
-    keywords: [
-      'баг', 'bug', 'ошибка', 'error', 'issue', 'проблема', 'problem',
-      'не работает', 'fix', 'исправь', 'отладка', 'debug'
-    ],
-    confidence: 0.94
-  },
-  'generate-documentation': {
-    keywords: [
-      'документация', 'documentation', 'docs', 'README', 'описание',
-      'написать документацию', 'генерировать документацию'
-    ],
-    confidence: 0.9
+import { Intent, NLULocale, NLUUnknownIntentError } from './types';
+import { unknownIntentError } from './errors';
+import { Token, tokenize, stemPhrase, findPhrase } from './tokenizer';
+import { notifyNLUConfigChange } from './config-events';
+import { detectLocale, getLocaleIntentKeywords, getMarkers } from './locales';
+
+export interface IntentPattern {
+  keywords: string[];
+  weakKeywords?: string[];
+  confidence: number;
+}
+
+export interface IntentCandidate extends Intent {
+  score: number;
+  matchedKeywords: string[];
+}
+
+export interface IntentRecognition {
+  primary: IntentCandidate;
+  candidates: IntentCandidate[];
+  compound: IntentCandidate[];
+}
+
+// Вес совпадения: фраза весомее слова, общие глаголы («создай», «напиши») — слабый сигнал
+const KEYWORD_WEIGHT = 1;
+const WEAK_KEYWORD_WEIGHT = 0.3;
+const PHRASE_BONUS = 0.5;
+
+// Слово после маркера объекта («для», «for») — объект задачи, а не её суть: «тесты для API»
+const OBJECT_PENALTY = 0.5;
+
+// Второе намерение считается частью составного запроса, если набрало
+// хотя бы одно полноценное совпадение и половину очков лидера
+const COMPOUND_MIN_SCORE = 1;
+const COMPOUND_RELATIVE_SCORE = 0.5;
+
+// Общие для всех языков термины; слова конкретного языка — в пакетах locales/
+const INTENT_PATTERNS: Record<string, IntentPattern> = {
+  'create-component': { keywords: [], confidence: 0.85 },
+  'create-application': { keywords: ['SPA'], confidence: 0.9 },
+  'develop-api': { keywords: ['API', 'REST', 'GraphQL'], confidence: 0.95 },
+  'write-tests': { keywords: ['Jest', 'Vitest', 'Cypress'], confidence: 0.95 },
+  'security-audit': { keywords: [], confidence: 0.98 },
+  'setup-ci': { keywords: ['CI', 'CD', 'CI/CD', 'GitHub Actions', 'GitLab CI'], confidence: 0.9 },
+  'optimize-performance': { keywords: [], confidence: 0.88 },
+  'refactor-code': { keywords: [], confidence: 0.92 },
+  'debug-issue': { keywords: [], confidence: 0.94 },
+  'generate-documentation': { keywords: ['README'], confidence: 0.9 }
+};
+
+export const recognizeIntent = (
+  text: string,
+  locale: NLULocale = detectLocale(text)
+): TaskEither<NLUUnknownIntentError, Intent> => {
+  return pipe(
+    recognizeIntents(text, locale),
+    map(({ primary }) => primary)
+  );
+};
+
+export const recognizeIntents = (
+  text: string,
+  locale: NLULocale = detectLocale(text)
+): TaskEither<NLUUnknownIntentError, IntentRecognition> => {
+  const candidates = rankIntents(text, locale);
+
+  if (candidates.length === 0) {
+    return left(unknownIntentError(text));
   }
+
+  const [primary] = candidates;
+  const compound = candidates.filter(c => c === primary || isCompoundPart(c.score, primary.score));
+
+  return right({ primary, candidates, compound });
+};
+
+const isCompoundPart = (score: number, leaderScore: number): boolean => {
+  return score >= COMPOUND_MIN_SCORE && score >= leaderScore * COMPOUND_RELATIVE_SCORE;
+};
+
+/**
+ * Все намерения с ненулевым счётом, по убыванию уверенности
+ */
+export const rankIntents = (text: string, locale: NLULocale = detectLocale(text)): IntentCandidate[] => {
+  const tokens = tokenize(text);
+  const objectMarkers = getMarkers(locale, 'object');
+  const scored = Object.entries(INTENT_PATTERNS)
+    .map(([name, pattern]) => ({ name, pattern: localizePattern(name, pattern, locale) }))
+    .map(({ name, pattern }) => ({ name, pattern, ...scorePattern(tokens, pattern, objectMarkers) }))
+    .filter(c => c.score > 0);
+
+  // Части составного запроса не конкурируют друг с другом: уверенность
+  // каждой снижают только намерения, не вошедшие в составной запрос
+  const leaderScore = Math.max(0, ...scored.map(c => c.score));
+  const parts = scored.filter(c => isCompoundPart(c.score, leaderScore));
+  const total = scored.reduce((sum, c) => sum + c.score, 0);
+  const partsTotal = parts.reduce((sum, c) => sum + c.score, 0);
+
+  return scored
+    .map(({ name, pattern, score, matchedKeywords }) => ({
+      name,
+      confidence: calibrateConfidence(
+        pattern.confidence,
+        score,
+        parts.some(p => p.name === name) ? total - partsTotal + score : total
+      ),
+      description: `Intent detected via keyword scoring: ${name} (${matchedKeywords.join(', ')})`,
+      score,
+      matchedKeywords
+    }))
+    .sort((a, b) => b.confidence - a.confidence || b.score - a.score);
+};
+
+const localizePattern = (name: string, pattern: IntentPattern, locale: NLULocale): IntentPattern => {
+  const localized = getLocaleIntentKeywords(name, locale);
+
+  return {
+    ...pattern,
+    keywords: [...pattern.keywords, ...localized.keywords],
+    weakKeywords: [...(pattern.weakKeywords ?? []), ...localized.weakKeywords]
+  };
 };
 
-export const recognizeIntent = (text: string): TaskEither<Error, Intent> => {
-  const lowerText = text.toLowerCase();
-  
-  // Try pattern-based recognition first
-  for (const [intentName, pattern] of Object.entries(INTENT_PATTERNS)) {
-    const hasKeyword = pattern.keywords.some(keyword => 
-      lowerText.includes(keyword.toLowerCase())
-    );
-    
-    if (hasKeyword) {
-      return right({
-        name: intentName,
-        confidence: pattern.confidence,
-        description: `Intent detected via keyword matching: ${intentName}`
-      });
+const scorePattern = (
+  tokens: Token[],
+  pattern: IntentPattern,
+  objectMarkers: string[]
+): { score: number; matchedKeywords: string[] } => {
+  const weighted = [
+    ...pattern.keywords.map(keyword => ({ keyword, weight: KEYWORD_WEIGHT })),
+    ...(pattern.weakKeywords ?? []).map(keyword => ({ keyword, weight: WEAK_KEYWORD_WEIGHT }))
+  ];
+
+  let score = 0;
+  const matchedKeywords: string[] = [];
+  const consumed = new Set<number>();
+
+  // Длинные фразы первыми, чтобы «написать тесты» не засчитывалось ещё и как «тесты»
+  const byLength = weighted
+    .map(w => ({ ...w, stems: stemPhrase(w.keyword) }))
+    .sort((a, b) => b.stems.length - a.stems.length);
+
+  for (const { keyword, weight, stems } of byLength) {
+    for (const position of findPhrase(tokens, stems)) {
+      const span = stems.map((_, i) => position + i);
+      if (span.some(i => consumed.has(i))) {
+        continue;
+      }
+
+      span.forEach(i => consumed.add(i));
+      const penalty = objectMarkers.includes(tokens[position - 1]?.normalized) ? OBJECT_PENALTY : 1;
+      score += (weight + PHRASE_BONUS * (stems.length - 1)) * penalty;
+      matchedKeywords.push(keyword);
+      break;
     }
   }
-  
-  // Fallback to unknown
-  return left(new Error('Unable to recognize intent: ' + text));
+
+  return { score, matchedKeywords };
 };
 
+/**
+ * Уверенность растёт с числом совпадений (до базовой уверенности шаблона)
+ * и снижается, когда счёт делится между несколькими намерениями
+ */
+const calibrateConfidence = (base: number, score: number, total: number): number => {
+  const strength = score >= 1
+    ? 0.85 + 0.15 * Math.min(1, (score - 1) / 2)
+    : 0.85 * score;
+  const dominance = 0.75 + 0.25 * (score / total);
+
+  return Math.round(base * strength * dominance * 1000) / 1000;
+};
+
+// Снимок встроенных шаблонов: всё, что отличается от него, добавлено во время работы
+const BUILTIN_INTENT_PATTERNS: Record<string, IntentPattern> = { ...INTENT_PATTERNS };
+
 export const getAllIntents = (): string[] => {
   return Object.keys(INTENT_PATTERNS);
 };
 
-export const getIntentPattern = (intentName: string) => {
+export const getIntentPattern = (intentName: string): IntentPattern | undefined => {
   return INTENT_PATTERNS[intentName];
 };
 
-export const addCustomIntent = (name: string, pattern: { keywords: string[], confidence: number }) => {
+export const getCustomIntents = (): Record<string, IntentPattern> => {
+  return Object.fromEntries(
+    Object.entries(INTENT_PATTERNS).filter(([name, pattern]) => BUILTIN_INTENT_PATTERNS[name] !== pattern)
+  );
+};
+
+export const addCustomIntent = (name: string, pattern: IntentPattern) => {
   INTENT_PATTERNS[name] = pattern;
+  notifyNLUConfigChange('intent');
 };
 
 export const removeIntent = (name: string) => {
   delete INTENT_PATTERNS[name];
+  notifyNLUConfigChange('intent');
 };
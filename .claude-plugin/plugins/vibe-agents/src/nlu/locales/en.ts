@@ -0,0 +1,96 @@
+/**
+ * 🇬🇧 English Locale Pack
+ */
+
+import { LocalePack } from '../types';
+
+export const en: LocalePack = {
+  locale: 'en',
+  script: 'latin',
+  stopwords: ['the', 'a', 'an', 'and', 'for', 'to', 'with', 'of', 'in', 'on', 'my', 'please', 'is', 'it', 'this'],
+
+  intents: {
+    'create-component': {
+      keywords: ['component', 'button', 'form', 'card', 'modal']
+    },
+    'create-application': {
+      keywords: ['application', 'web', 'app']
+    },
+    'develop-api': {
+      keywords: ['endpoint', 'backend']
+    },
+    'write-tests': {
+      keywords: ['tests', 'testing', 'unit tests', 'e2e tests']
+    },
+    'security-audit': {
+      keywords: ['audit', 'security', 'scan security', 'vulnerability']
+    },
+    'setup-ci': {
+      keywords: ['pipeline']
+    },
+    'optimize-performance': {
+      keywords: ['optimize', 'performance', 'lazy loading']
+    },
+    'refactor-code': {
+      keywords: ['refactor', 'clean code']
+    },
+    'debug-issue': {
+      keywords: ['bug', 'error', 'issue', 'problem', 'fix', 'debug']
+    },
+    'generate-documentation': {
+      keywords: ['documentation', 'docs']
+    }
+  },
+
+  entities: {
+    taskType: [
+      { name: 'component', patterns: ['component', 'button', 'form'] },
+      { name: 'application', patterns: ['application', 'site'] },
+      { name: 'api', patterns: ['server', 'endpoint'] },
+      { name: 'tests', patterns: ['tests', 'testing'] },
+      { name: 'hook', patterns: ['hook'] }
+    ]
+  },
+
+  markers: {
+    object: ['for'],
+    tech: ['on', 'with', 'using', 'via'],
+    followUp: ['now', 'also', 'too', 'it', 'its', 'them', 'this', 'that', 'same']
+  },
+
+  intentLabels: {
+    'create-component': 'create a component',
+    'create-application': 'create an application',
+    'develop-api': 'develop an API',
+    'write-tests': 'write tests',
+    'security-audit': 'run a security audit',
+    'setup-ci': 'set up CI/CD',
+    'optimize-performance': 'optimize performance',
+    'refactor-code': 'refactor code',
+    'debug-issue': 'fix a bug',
+    'generate-documentation': 'write documentation'
+  },
+
+  clarification: {
+    questions: {
+      'low-confidence': 'Please clarify what you need:',
+      'ambiguous': 'The request is ambiguous. Which one do you mean?',
+      'unknown-intent': 'I could not understand the task. What should be done?'
+    },
+    entities: {
+      framework: 'Which framework should be used (e.g. React, Vue, Angular)?',
+      language: 'Which language should be used (e.g. TypeScript, Python, Go)?'
+    }
+  },
+
+  prompts: {
+    system: 'You are the NLU system of Vibe Agents.\n\nAnalyze the request and return JSON with:\n1. intent - the user intent\n2. entities - entities (framework, language, etc)\n3. suggestedAction - the recommended action\n4. confidence - confidence (0-1)\n\nAvailable intents:\n{intents}',
+    projectContext: 'Project context: ',
+    preferences: 'User preferences: ',
+    history: 'Previous turns (use them for follow-ups like "add tests to it"):',
+    answerFormat: 'Answer with JSON matching the schema. Write suggestedAction in English.',
+    intent: 'Determine the user intent. JSON answer: {"intent": {"name": "...", "confidence": 0.95, "description": "..."}}',
+    entities: 'Extract entities from the text. Types: framework, language, taskType, technology. Intent: {intent}. JSON answer: {"entities": [{"type": "...", "value": "...", "confidence": 0.9}]}',
+    repair: 'The answer does not match the schema:\n{issues}\nReturn the corrected answer: JSON only, no markdown or explanations.'
+  }
+};
@@ -0,0 +1,149 @@
+/**
+ * 🌐 Locales
+ * Language detection and locale packs for keywords, clarification and prompts
+ */
+
+import { ClarificationReason, LocaleEntityPattern, LocalePack, NLULocale } from '../types';
+import { Token, tokenize } from '../tokenizer';
+import { notifyNLUConfigChange } from '../config-events';
+import { ru } from './ru';
+import { en } from './en';
+
+export { ru } from './ru';
+export { en } from './en';
+
+export const DEFAULT_LOCALE: NLULocale = 'en';
+
+const SCRIPT_PATTERNS: Record<LocalePack['script'], RegExp> = {
+  cyrillic: /\p{Script=Cyrillic}/u,
+  latin: /\p{Script=Latin}/u
+};
+
+const UNIQUE_LETTER_WEIGHT = 2;
+const STOPWORD_WEIGHT = 1;
+
+const LOCALE_PACKS: Record<NLULocale, LocalePack> = { ru, en };
+
+/**
+ * Новый язык (uk, de…) подключается пакетом того же формата, что ru и en
+ */
+export const registerLocalePack = (pack: LocalePack) => {
+  LOCALE_PACKS[pack.locale] = pack;
+  notifyNLUConfigChange('locale');
+};
+
+export const getLocalePack = (locale: NLULocale): LocalePack => {
+  return LOCALE_PACKS[locale] ?? LOCALE_PACKS[DEFAULT_LOCALE];
+};
+
+export const getSupportedLocales = (): NLULocale[] => {
+  return Object.keys(LOCALE_PACKS);
+};
+
+/**
+ * Пакеты для разбора запроса: английские термины («refactor», «pipeline»)
+ * встречаются в запросах на любом языке, поэтому английский пакет подключается всегда
+ */
+export const getActivePacks = (locale: NLULocale): LocalePack[] => {
+  const primary = getLocalePack(locale);
+  const fallback = LOCALE_PACKS[DEFAULT_LOCALE];
+
+  return primary === fallback ? [primary] : [primary, fallback];
+};
+
+/**
+ * Язык определяется по словам: алфавит, характерные буквы и служебные слова.
+ * Латинские слова с заглавной буквы (React, UserService) — имена и не голосуют
+ */
+export const detectLocale = (text: string): NLULocale => {
+  const voting = tokenize(text).filter(token => !isProperName(token));
+  let best: { locale: NLULocale; score: number } = { locale: DEFAULT_LOCALE, score: 0 };
+
+  for (const pack of Object.values(LOCALE_PACKS)) {
+    const score = voting.reduce((sum, token) => sum + scoreToken(token, pack), 0);
+    if (score > best.score) {
+      best = { locale: pack.locale, score };
+    }
+  }
+
+  return best.locale;
+};
+
+const scoreToken = (token: Token, pack: LocalePack): number => {
+  const word = token.text.toLowerCase();
+
+  if (!SCRIPT_PATTERNS[pack.script].test(word)) {
+    return 0;
+  }
+
+  const unique = pack.letters && [...word].some(letter => pack.letters!.includes(letter));
+
+  return 1 +
+    (unique ? UNIQUE_LETTER_WEIGHT : 0) +
+    (pack.stopwords.includes(token.normalized) ? STOPWORD_WEIGHT : 0);
+};
+
+const isProperName = (token: Token): boolean => {
+  return SCRIPT_PATTERNS.latin.test(token.text) && /^\p{Lu}/u.test(token.text);
+};
+
+export const getIntentLabels = (locale: NLULocale): Record<string, string> => {
+  return { ...LOCALE_PACKS[DEFAULT_LOCALE].intentLabels, ...getLocalePack(locale).intentLabels };
+};
+
+export const getIntentLabel = (intent: string, locale: NLULocale): string => {
+  return getIntentLabels(locale)[intent] ?? intent;
+};
+
+export const getClarificationText = (
+  locale: NLULocale,
+  key: { reason: ClarificationReason } | { entity: string }
+): string | undefined => {
+  const read = (pack: LocalePack) =>
+    'reason' in key ? pack.clarification.questions[key.reason] : pack.clarification.entities[key.entity];
+
+  return read(getLocalePack(locale)) ?? read(LOCALE_PACKS[DEFAULT_LOCALE]);
+};
+
+/**
+ * Промпт выбранного языка с подставленными значениями
+ */
+export const getPrompt = (
+  locale: NLULocale,
+  name: keyof LocalePack['prompts'],
+  values: Record<string, string> = {}
+): string => {
+  const template = getLocalePack(locale).prompts[name] ?? LOCALE_PACKS[DEFAULT_LOCALE].prompts[name];
+  return template.replace(/\{(\w+)\}/g, (placeholder, key) => values[key] ?? placeholder);
+};
+
+/**
+ * Ключевые слова намерения из всех активных пакетов
+ */
+export const getLocaleIntentKeywords = (
+  intent: string,
+  locale: NLULocale
+): { keywords: string[]; weakKeywords: string[] } => {
+  const packs = getActivePacks(locale);
+
+  return {
+    keywords: packs.flatMap(pack => pack.intents[intent]?.keywords ?? []),
+    weakKeywords: packs.flatMap(pack => pack.intents[intent]?.weakKeywords ?? [])
+  };
+};
+
+export const getLocaleEntities = (locale: NLULocale): Record<string, LocaleEntityPattern[]> => {
+  const merged: Record<string, LocaleEntityPattern[]> = {};
+
+  for (const pack of getActivePacks(locale)) {
+    for (const [type, patterns] of Object.entries(pack.entities)) {
+      merged[type] = [...(merged[type] ?? []), ...patterns];
+    }
+  }
+
+  return merged;
+};
+
+export const getMarkers = (locale: NLULocale, kind: keyof LocalePack['markers']): string[] => {
+  return getActivePacks(locale).flatMap(pack => pack.markers[kind]);
+};
@@ -0,0 +1,125 @@
+/**
+ * 🇷🇺 Russian Locale Pack
+ */
+
+import { LocalePack } from '../types';
+
+export const ru: LocalePack = {
+  locale: 'ru',
+  script: 'cyrillic',
+  letters: 'ыэъё',
+  stopwords: ['и', 'в', 'на', 'для', 'с', 'не', 'что', 'как', 'это', 'мне', 'нужно', 'надо', 'по', 'к', 'а'],
+
+  intents: {
+    'create-component': {
+      keywords: ['компонент', 'кнопку', 'форму', 'карточку'],
+      weakKeywords: ['создай', 'создать', 'сделай', 'сделать', 'напиши', 'написать']
+    },
+    'create-application': {
+      keywords: ['приложение', 'сайт', 'веб-сайт', 'приложение на', 'сайт на', 'проект', 'проект на']
+    },
+    'develop-api': {
+      keywords: ['сервер', 'бэкенд', 'API на', 'сервер на', 'бэкенд на', 'сервер для', 'API для']
+    },
+    'write-tests': {
+      keywords: ['тесты', 'тестирование', 'написать тесты', 'unit тесты', 'integration тесты', 'e2e тесты', 'тест на']
+    },
+    'security-audit': {
+      keywords: ['аудит', 'безопасность', 'проверь безопасность', 'уязвимость']
+    },
+    'setup-ci': {
+      keywords: ['пайплайн', 'настроить CI', 'настроить CD', 'автоматизация']
+    },
+    'optimize-performance': {
+      keywords: ['оптимизируй', 'оптимизация', 'производительность', 'ускорить', 'быстрее', 'мемоизация']
+    },
+    'refactor-code': {
+      keywords: ['рефакторинг', 'улучши код', 'оптимизируй код', 'чистый код', 'для код']
+    },
+    'debug-issue': {
+      keywords: ['баг', 'ошибка', 'проблема', 'не работает', 'исправь', 'отладка']
+    },
+    'generate-documentation': {
+      keywords: ['документация', 'описание', 'написать документацию', 'генерировать документацию']
+    }
+  },
+
+  entities: {
+    framework: [
+      { name: 'React', patterns: ['реакт', 'реакт.js'] },
+      { name: 'Vue', patterns: ['вью'], ambiguous: ['вью'] },
+      { name: 'Angular', patterns: ['ангуляр'] },
+      { name: 'Next.js', patterns: ['некст'] },
+      { name: 'Nuxt', patterns: ['нукс'] },
+      { name: 'Svelte', patterns: ['свилт'] },
+      { name: 'Remix', patterns: ['ремикс'], ambiguous: ['ремикс'] },
+      { name: 'Astro', patterns: ['астро'], ambiguous: ['астро'] }
+    ],
+    language: [
+      { name: 'TypeScript', patterns: ['тайпскрипт'] },
+      { name: 'JavaScript', patterns: ['джаваскрипт'] },
+      { name: 'Python', patterns: ['питон'] },
+      { name: 'Go', patterns: ['го'], ambiguous: ['го'] },
+      { name: 'Rust', patterns: ['раст'] },
+      { name: 'Java', patterns: ['джава'] },
+      { name: 'C#', patterns: ['си шарп'] }
+    ],
+    taskType: [
+      { name: 'component', patterns: ['компонент', 'кнопка', 'форма'] },
+      { name: 'application', patterns: ['приложение', 'сайт'] },
+      { name: 'api', patterns: ['сервер'] },
+      { name: 'tests', patterns: ['тесты'] },
+      { name: 'hook', patterns: ['хук'] }
+    ],
+    technology: [
+      { name: 'Express', patterns: ['экспресс'], ambiguous: ['экспресс'] },
+      { name: 'Django', patterns: ['джанго'] },
+      { name: 'Spring', patterns: ['спринг'], ambiguous: ['спринг'] },
+      { name: 'MongoDB', patterns: ['монго'] },
+      { name: 'MySQL', patterns: ['майскюэль'] },
+      { name: 'Redis', patterns: ['редис'] }
+    ]
+  },
+
+  markers: {
+    object: ['для'],
+    tech: ['на', 'через'],
+    followUp: ['теперь', 'еще', 'также', 'тоже', 'него', 'нему', 'ней', 'нее', 'его', 'ее', 'их', 'им', 'этому', 'этот', 'это']
+  },
+
+  intentLabels: {
+    'create-component': 'создать компонент',
+    'create-application': 'создать приложение',
+    'develop-api': 'разработать API',
+    'write-tests': 'написать тесты',
+    'security-audit': 'провести аудит безопасности',
+    'setup-ci': 'настроить CI/CD',
+    'optimize-performance': 'оптимизировать производительность',
+    'refactor-code': 'отрефакторить код',
+    'debug-issue': 'исправить ошибку',
+    'generate-documentation': 'написать документацию'
+  },
+
+  clarification: {
+    questions: {
+      'low-confidence': 'Уточните, что нужно сделать:',
+      'ambiguous': 'Запрос можно понять по-разному. Что именно нужно?',
+      'unknown-intent': 'Не удалось понять задачу. Что нужно сделать?'
+    },
+    entities: {
+      framework: 'Какой фреймворк использовать (например, React, Vue, Angular)?',
+      language: 'На каком языке писать (например, TypeScript, Python, Go)?'
+    }
+  },
+
+  prompts: {
+    system: 'Ты NLU система для Vibe Agents.\n\nПроанализируй запрос и верни JSON с:\n1. intent - намерение пользователя\n2. entities - сущности (framework, language, etc)\n3. suggestedAction - рекомендуемое действие\n4. confidence - уверенность (0-1)\n\nДоступные intents:\n{intents}',
+    projectContext: 'Контекст проекта: ',
+    preferences: 'Предпочтения пользователя: ',
+    history: 'Предыдущие реплики (учитывай их для уточняющих запросов вроде «добавь тесты к нему»):',
+    answerFormat: 'Ответ в формате JSON согласно схеме. suggestedAction пиши на русском.',
+    intent: 'Определи намерение пользователя. Ответ JSON: {"intent": {"name": "...", "confidence": 0.95, "description": "..."}}',
+    entities: 'Извлеки сущности из текста. Типы: framework, language, taskType, technology. Намерение: {intent}. Ответ JSON: {"entities": [{"type": "...", "value": "...", "confidence": 0.9}]}',
+    repair: 'Ответ не соответствует схеме:\n{issues}\nВерни исправленный ответ: только JSON, без markdown и пояснений.'
+  }
+};
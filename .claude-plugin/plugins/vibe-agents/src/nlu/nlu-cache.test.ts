@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createCacheKey, createNLUCache } from './nlu-cache';
+import { NLUParsing } from './types';
+
+const parsing = (text: string): NLUParsing => ({
+  originalText: text,
+  intent: { name: 'create-component', confidence: 0.9, description: '' },
+  entities: [],
+  suggestedAction: '',
+  confidence: 0.9
+});
+
+describe('createCacheKey', () => {
+  it('ignores case, surrounding and repeated whitespace', () => {
+    assert.equal(createCacheKey('  Создай   компонент '), createCacheKey('создай компонент'));
+  });
+
+  it('depends on the context that affects parsing', () => {
+    const plain = createCacheKey('создай компонент');
+    const withProject = createCacheKey('создай компонент', { projectContext: { framework: 'Vue' } });
+
+    assert.notEqual(plain, withProject);
+    assert.notEqual(plain, createCacheKey('создай компонент', undefined, ['llm']));
+  });
+});
+
+describe('createNLUCache', () => {
+  it('counts hits and misses', () => {
+    const cache = createNLUCache();
+    cache.set('a', parsing('a'));
+
+    assert.equal(cache.get('a')?.originalText, 'a');
+    assert.equal(cache.get('b'), undefined);
+    assert.deepEqual(cache.stats(), { hits: 1, misses: 1, size: 1, evictions: 0, invalidations: 0 });
+  });
+
+  it('evicts the least recently used entry', () => {
+    const cache = createNLUCache({ maxEntries: 2 });
+    cache.set('a', parsing('a'));
+    cache.set('b', parsing('b'));
+    cache.get('a');
+    cache.set('c', parsing('c'));
+
+    assert.equal(cache.get('b'), undefined);
+    assert.ok(cache.get('a'));
+    assert.ok(cache.get('c'));
+    assert.equal(cache.stats().evictions, 1);
+  });
+
+  it('expires entries after their TTL', async () => {
+    const cache = createNLUCache({ ttlMs: 60_000 });
+    cache.set('short', parsing('short'), 1);
+    cache.set('long', parsing('long'));
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    assert.equal(cache.get('short'), undefined);
+    assert.ok(cache.get('long'));
+    assert.equal(cache.stats().size, 1);
+  });
+
+  it('persists entries on flush and loads them back', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'nlu-cache-'));
+    const filePath = join(dir, 'cache.json');
+
+    try {
+      const cache = createNLUCache({ filePath, saveDelayMs: 60_000 });
+      cache.set('a', parsing('a'));
+      await cache.flush();
+
+      assert.equal(JSON.parse(await readFile(filePath, 'utf-8')).length, 1);
+      assert.equal(createNLUCache({ filePath }).get('a')?.originalText, 'a');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
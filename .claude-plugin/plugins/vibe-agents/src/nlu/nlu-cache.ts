@@ -0,0 +1,162 @@
+/**
+ * 🗄️ NLU Cache
+ * LRU cache for parsing results with TTL and optional JSON file store
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync } from 'node:fs';
+import { mkdir, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { NLUContext, NLUParsing } from './types';
+
+export interface NLUCacheOptions {
+  maxEntries?: number;
+  ttlMs?: number;
+  filePath?: string;
+  // Изменения собираются и пишутся в файл одной записью после паузы
+  saveDelayMs?: number;
+}
+
+export interface NLUCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+  evictions: number;
+  invalidations: number;
+}
+
+export interface NLUCache {
+  get: (key: string) => NLUParsing | undefined;
+  // ttlMs заменяет срок жизни по умолчанию для этой записи
+  set: (key: string, value: NLUParsing, ttlMs?: number) => void;
+  clear: () => void;
+  stats: () => NLUCacheStats;
+  // Записывает отложенные изменения в файл, не дожидаясь таймера
+  flush: () => Promise<void>;
+}
+
+interface CacheEntry {
+  value: NLUParsing;
+  expiresAt: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+const DEFAULT_SAVE_DELAY_MS = 1000;
+
+/**
+ * Ключ: нормализованный текст и та часть контекста, что влияет на разбор.
+ * Временные метки реплик не учитываются
+ */
+export const createCacheKey = (text: string, context?: NLUContext, scope: string[] = []): string => {
+  const normalized = text.trim().toLowerCase().replace(/\s+/g, ' ');
+  const relevant = {
+    projectContext: context?.projectContext,
+    userPreferences: context?.userPreferences,
+    history: (context?.conversationHistory ?? []).map(turn => [turn.role, turn.content])
+  };
+
+  return createHash('sha256')
+    .update(JSON.stringify([normalized, relevant, scope]))
+    .digest('hex');
+};
+
+export const createNLUCache = (options: NLUCacheOptions = {}): NLUCache => {
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  const entries = new Map<string, CacheEntry>(
+    options.filePath ? loadEntries(options.filePath).slice(-maxEntries) : []
+  );
+  const counters = { hits: 0, misses: 0, evictions: 0, invalidations: 0 };
+  const saveDelayMs = options.saveDelayMs ?? DEFAULT_SAVE_DELAY_MS;
+  let timer: NodeJS.Timeout | undefined;
+  let writes: Promise<void> = Promise.resolve();
+
+  const save = (): Promise<void> => {
+    clearTimeout(timer);
+    timer = undefined;
+
+    if (!options.filePath) {
+      return writes;
+    }
+
+    // Записи идут по одной; ошибка записи не влияет на кэш в памяти
+    const filePath = options.filePath;
+    const snapshot = JSON.stringify([...entries]);
+    writes = writes.then(() => saveEntries(filePath, snapshot)).catch(() => undefined);
+    return writes;
+  };
+
+  const persist = () => {
+    if (options.filePath && !timer) {
+      timer = setTimeout(() => void save(), saveDelayMs);
+      // Отложенная запись не держит процесс открытым
+      timer.unref();
+    }
+  };
+
+  return {
+    get: (key: string) => {
+      const entry = entries.get(key);
+
+      if (!entry || entry.expiresAt <= Date.now()) {
+        if (entry) {
+          entries.delete(key);
+        }
+        counters.misses++;
+        return undefined;
+      }
+
+      // Map хранит порядок вставки: перевставка делает запись самой свежей
+      entries.delete(key);
+      entries.set(key, entry);
+      counters.hits++;
+      return entry.value;
+    },
+
+    set: (key: string, value: NLUParsing, entryTtlMs: number = ttlMs) => {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + entryTtlMs });
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+        counters.evictions++;
+      }
+
+      persist();
+    },
+
+    clear: () => {
+      entries.clear();
+      counters.invalidations++;
+      persist();
+    },
+
+    stats: () => ({ ...counters, size: entries.size }),
+
+    flush: () => timer ? save() : writes
+  };
+};
+
+const loadEntries = (filePath: string): Array<[string, CacheEntry]> => {
+  if (!existsSync(filePath)) {
+    return [];
+  }
+
+  try {
+    const stored: Array<[string, CacheEntry]> = JSON.parse(readFileSync(filePath, 'utf-8'));
+    const now = Date.now();
+    return stored.filter(([, entry]) => entry.expiresAt > now);
+  } catch {
+    // Повреждённый файл кэша не должен ломать NLU
+    return [];
+  }
+};
+
+const saveEntries = async (filePath: string, content: string): Promise<void> => {
+  await mkdir(dirname(filePath), { recursive: true });
+  // Через временный файл: прерванная запись не оставит половину JSON
+  await writeFile(filePath + '.tmp', content, 'utf-8');
+  await rename(filePath + '.tmp', filePath);
+};
@@ -3,260 +3,672 @@
  * AI-powered Natural Language Understanding
  */
 
-import { openai } from '@/core/openai';
-import { TaskEither, left, right, chain, map } from 'fp-ts/lib/TaskEither';
+import { TaskEither, left, right, rightIO, chain, map, mapLeft, orElse } from 'fp-ts/lib/TaskEither';
+import { Either, left as leftE, isLeft as isLeftE, isRight as isRightE } from 'fp-ts/lib/Either';
+import { z } from 'zod';
 import { pipe } from 'fp-ts/lib/function';
-import { Intent, Entity, NLUParsing, AgentRoute, NLUContext, NLUService } from './types';
+import {
+  Intent,
+  Entity,
+  NLUParsing,
+  AgentRoute,
+  IntentRoute,
+  NLUContext,
+  NLUOptions,
+  NLUOutcome,
+  NLUPolicy,
+  ClarificationRequest,
+  NLUError,
+  NLULocale,
+  NLUService
+} from './types';
+import {
+  cancelledError,
+  lowConfidenceError,
+  timeoutError,
+  toNLUError,
+  unknownIntentError,
+  noRouteError,
+  validationError,
+  withMessage
+} from './errors';
+import { agentRegistry } from '../agents/agent-registry';
+import {
+  recognizeIntent as recognizeIntentByRules,
+  recognizeIntents as recognizeIntentsByRules
+} from './intent-recognition';
+import { extractEntities as extractEntitiesByRules } from './entity-extraction';
+import { generateTaskFromNLU, getBestAgent } from './agent-routing';
+import { enrichParsing, resolveConversation } from './conversation';
+import {
+  buildClarification,
+  matchIntentAnswer,
+  mergeClarificationAnswer,
+  needsClarification
+} from './clarification';
+import { LLMCompletionRequest, LLMProvider } from './providers/types';
+import {
+  EntitiesResponseSchema,
+  IntentResponseSchema,
+  NLUResponseSchema,
+  createRepairPrompt,
+  validateResponse
+} from './response-schemas';
+import { createCacheKey, createNLUCache } from './nlu-cache';
+import { detectLocale, getPrompt } from './locales';
+import { Tracer, tracer as defaultTracer } from '../tracing/tracer';
+import { onNLUConfigChange } from './config-events';
+import { createOpenAICompatibleProvider } from './providers/openai-compatible';
 
 const DEFAULT_MODEL = 'minimax/minimax-m2';
 const DEFAULT_TEMPERATURE = 0.3;
 const DEFAULT_MAX_TOKENS = 500;
 const MIN_CONFIDENCE = 0.7;
+const DEFAULT_POLICY: NLUPolicy = 'llm-first';
+const NLU_POLICIES: NLUPolicy[] = ['llm-only', 'rules-only', 'rules-first', 'llm-first'];
+const DEFAULT_TIMEOUT_MS = 15000;
+const PROMPT_HISTORY_TURNS = 6;
+const CLARIFIED_CONFIDENCE = 0.95;
+const DEFAULT_REPAIR_ATTEMPTS = 1;
+// Правила после сбоя LLM кэшируются ненадолго: сбой мог быть разовым
+const FALLBACK_CACHE_TTL_MS = 60 * 1000;
+const MAX_INPUT_LENGTH = 1000;
+const MIN_INPUT_LENGTH = 3;
 
-export const createNLUService = (): NLUService => {
-  return {
-    parseText: (text: string, context?: NLUContext): TaskEither<Error, NLUParsing> => {
-      return pipe(
-        validateInput(text),
-        chain((cleanText) => callMinimaxForNLU(cleanText, context)),
-        map((response) => parseNLUResponse(response))
-      );
-    },
+interface LLMConfig {
+  provider: LLMProvider;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  maxRepairAttempts: number;
+  tracer: Tracer;
+}
 
-    recognizeIntent: (text: string): TaskEither<Error, Intent> => {
-      return pipe(
-        validateInput(text),
-        chain((cleanText) => callMinimaxForIntent(cleanText)),
-        map((response) => parseIntentResponse(response))
-      );
-    },
+export const createNLUService = (options: NLUOptions = {}): NLUService => {
+  const policy = options.policy ?? policyFromEnv() ?? DEFAULT_POLICY;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const minConfidence = options.minConfidence ?? MIN_CONFIDENCE;
+  const tracer = options.tracer ?? defaultTracer;
+  const llm: LLMConfig = {
+    provider: options.provider ?? createDefaultProvider(),
+    model: options.model ?? DEFAULT_MODEL,
+    temperature: options.temperature,
+    maxTokens: options.maxTokens,
+    maxRepairAttempts: options.maxRepairAttempts ?? DEFAULT_REPAIR_ATTEMPTS,
+    tracer
+  };
 
-    extractEntities: (text: string, intent: Intent): TaskEither<Error, Entity[]> => {
-      return pipe(
-        validateInput(text),
-        chain((cleanText) => callMinimaxForEntities(cleanText, intent)),
-        map((response) => parseEntitiesResponse(response))
-      );
-    },
+  const cache = options.enableCache ? createNLUCache(options.cacheOptions) : undefined;
+  // Новые намерения, сущности и маршруты меняют результат разбора
+  const unsubscribe = cache ? onNLUConfigChange(() => cache.clear()) : undefined;
 
-    routeToAgent: (intent: Intent, entities: Entity[]): TaskEither<Error, AgentRoute> => {
-      return pipe(
-        routeToAgentByIntent(intent),
-        map((agentId) => ({
-          agentId,
-          intent: intent.name,
-          entities,
-          task: generateTaskFromNLU(intent, entities),
-          confidence: intent.confidence,
-          originalText: ''
-        }))
-      );
-    },
+  const parseTextWithLLM = (
+    text: string,
+    locale: NLULocale,
+    context?: NLUContext
+  ): TaskEither<NLUError, NLUParsing> => {
+    return pipe(
+      withTimeout((signal) => callLLMForNLU(llm, text, locale, context, signal), timeoutMs, context?.signal),
+      map((parsing) => ({ ...parsing, originalText: text, source: 'llm' as const }))
+    );
+  };
 
-    processNaturalLanguage: (text: string, context?: NLUContext): TaskEither<Error, AgentRoute> => {
-      return pipe(
-        validateInput(text),
-        chain((cleanText) => parseText(text, context)),
-        chain((parsing) => 
-          pipe(
-            routeToAgent(parsing.intent, parsing.entities),
-            map((route) => ({
-              ...route,
-              originalText: text
-            }))
+  const parseTextWithRules = (
+    text: string,
+    locale: NLULocale,
+    context?: NLUContext
+  ): TaskEither<NLUError, NLUParsing> => {
+    const conversation = resolveConversation(text, context);
+
+    return pipe(
+      recognizeIntentsByRules(text, locale),
+      // «а теперь на Vue» не содержит намерения: продолжаем предыдущее
+      orElse((error) =>
+        conversation.previousIntent
+          ? right({
+              primary: { ...conversation.previousIntent, score: 0, matchedKeywords: [] },
+              candidates: [],
+              compound: []
+            })
+          : left(error)
+      ),
+      map(({ primary, compound }) => ({
+        originalText: text,
+        intent: primary,
+        entities: extractEntitiesByRules(text, locale),
+        suggestedAction: primary.description,
+        confidence: primary.confidence,
+        source: 'rules' as const,
+        additionalIntents: compound.slice(1)
+      }))
+    );
+  };
+
+  const parseText = (text: string, context?: NLUContext): TaskEither<NLUError, NLUParsing> => {
+    return pipe(
+      tracer.trace('nlu.validate', { 'input.length': text?.length ?? 0 }, validateInput(text)),
+      chain((cleanText) => {
+        const key = createCacheKey(cleanText, context, [policy, llm.model]);
+        const locale = detectLocale(cleanText);
+
+        // Кэш читается при запуске задачи: повторный запуск той же TaskEither видит свежие записи
+        const parsed = pipe(
+          rightIO<NLUError, NLUParsing | undefined>(() => cache?.get(key)),
+          chain((cached) => cached
+            ? right({ parsing: cached, cached: true })
+            : pipe(
+                withPolicy(
+                  policy,
+                  () => parseTextWithLLM(cleanText, locale, context),
+                  () => parseTextWithRules(cleanText, locale, context)
+                ),
+                map((parsing) => enrichParsing({ ...parsing, locale }, context)),
+                map((parsing) => {
+                  const fallback = policy === 'llm-first' && parsing.source === 'rules';
+                  cache?.set(key, parsing, fallback ? FALLBACK_CACHE_TTL_MS : undefined);
+                  return { parsing, cached: false };
+                })
+              )
           )
-        ),
-        map((route) => {
-          if (route.confidence < MIN_CONFIDENCE) {
-            throw new Error('Low confidence: ' + route.confidence);
-          }
-          return route;
-        })
-      );
+        );
+
+        return pipe(
+          tracer.trace(
+            'nlu.parse',
+            { 'nlu.policy': policy, 'nlu.locale': locale },
+            parsed,
+            ({ parsing, cached }) => ({
+              'nlu.cached': cached,
+              'nlu.intent': parsing.intent.name,
+              'nlu.confidence': parsing.confidence,
+              'nlu.source': parsing.source,
+              'nlu.entities': parsing.entities.length
+            })
+          ),
+          map(({ parsing }) => parsing)
+        );
+      })
+    );
+  };
+
+  const recognizeIntent = (text: string): TaskEither<NLUError, Intent> => {
+    return pipe(
+      validateInput(text),
+      chain((cleanText) =>
+        withPolicy(
+          policy,
+          () =>
+            withTimeout((signal) => callLLMForIntent(llm, cleanText, detectLocale(cleanText), signal), timeoutMs),
+          () => recognizeIntentByRules(cleanText)
+        )
+      )
+    );
+  };
+
+  const extractEntities = (text: string, intent: Intent): TaskEither<NLUError, Entity[]> => {
+    return pipe(
+      validateInput(text),
+      chain((cleanText) =>
+        withPolicy(
+          policy,
+          () =>
+            withTimeout((signal) => callLLMForEntities(llm, cleanText, intent, detectLocale(cleanText), signal), timeoutMs),
+          () => right(extractEntitiesByRules(cleanText))
+        )
+      )
+    );
+  };
+
+  const routeToAgent = (intent: Intent, entities: Entity[]): TaskEither<NLUError, AgentRoute> => {
+    return pipe(
+      routeToAgentByIntent(intent, entities),
+      map((agentId) => ({
+        agentId,
+        intent: intent.name,
+        entities,
+        task: generateTaskFromNLU(intent, entities),
+        confidence: intent.confidence,
+        originalText: ''
+      }))
+    );
+  };
+
+  const routeParsing = (parsing: NLUParsing): TaskEither<NLUError, AgentRoute> => {
+    return tracer.trace(
+      'nlu.route',
+      { 'nlu.intent': parsing.intent.name, 'nlu.confidence': parsing.intent.confidence },
+      pipe(
+        routeToAgent(parsing.intent, parsing.entities),
+        map((route) => ({
+          ...route,
+          originalText: parsing.originalText,
+          source: parsing.source,
+          ...additionalRoutes(parsing)
+        }))
+      ),
+      (route) => ({ 'agent.id': route.agentId, 'nlu.additional_routes': route.additionalRoutes?.length })
+    );
+  };
+
+  const understand = (text: string, context?: NLUContext): TaskEither<NLUError, NLUOutcome> => {
+    return tracer.trace('nlu.understand', {}, understandText(text, context), (outcome) => ({
+      'nlu.outcome': outcome.kind,
+      'agent.id': outcome.kind === 'routed' ? outcome.route.agentId : undefined,
+      'nlu.clarification': outcome.kind === 'clarification' ? outcome.clarification.reason : undefined
+    }));
+  };
+
+  const understandText = (text: string, context?: NLUContext): TaskEither<NLUError, NLUOutcome> => {
+    return pipe(
+      parseText(text, context),
+      chain((parsing): TaskEither<NLUError, NLUOutcome> => {
+        const routable = getBestAgent(parsing.intent, parsing.entities) !== null;
+        const clarification = needsClarification(parsing, minConfidence, routable);
+
+        if (clarification) {
+          return right({ kind: 'clarification', clarification });
+        }
+
+        return pipe(
+          routeParsing(parsing),
+          map((route): NLUOutcome => ({ kind: 'routed', route }))
+        );
+      }),
+      // Нераспознанный запрос — повод спросить, а не ошибка
+      orElse((error): TaskEither<NLUError, NLUOutcome> =>
+        error.kind === 'unknown-intent'
+          ? right({
+              kind: 'clarification',
+              clarification: buildClarification(text.trim(), 'unknown-intent', 0, [], [])
+            })
+          : left(error)
+      )
+    );
+  };
+
+  const resolveClarification = (
+    clarification: ClarificationRequest,
+    answer: string,
+    context?: NLUContext
+  ): TaskEither<NLUError, NLUOutcome> => {
+    const mergedText = mergeClarificationAnswer(clarification, answer);
+    const selected = matchIntentAnswer(clarification, answer);
+
+    if (!selected) {
+      return understand(mergedText, context);
+    }
+
+    // Пользователь выбрал намерение явно: сущности берём из исходного текста и ответа
+    const intent: Intent = {
+      name: selected,
+      confidence: CLARIFIED_CONFIDENCE,
+      description: 'Intent selected by user clarification: ' + selected
+    };
+
+    return pipe(
+      validateInput(mergedText),
+      map((cleanText) =>
+        enrichParsing(
+          {
+            originalText: cleanText,
+            intent,
+            entities: extractEntitiesByRules(cleanText, clarification.locale),
+            suggestedAction: intent.description,
+            confidence: intent.confidence,
+            source: 'rules',
+            locale: clarification.locale
+          },
+          context
+        )
+      ),
+      chain(routeParsing),
+      map((route): NLUOutcome => ({ kind: 'routed', route }))
+    );
+  };
+
+  const processNaturalLanguage = (text: string, context?: NLUContext): TaskEither<NLUError, AgentRoute> => {
+    return pipe(
+      understand(text, context),
+      chain((outcome) =>
+        outcome.kind === 'routed'
+          ? right(outcome.route)
+          : left(
+              outcome.clarification.reason === 'unknown-intent'
+                ? unknownIntentError(outcome.clarification.originalText, outcome.clarification)
+                : lowConfidenceError(outcome.clarification, minConfidence)
+            )
+      )
+    );
+  };
+
+  return {
+    parseText,
+    recognizeIntent,
+    extractEntities,
+    routeToAgent,
+    processNaturalLanguage,
+    understand,
+    resolveClarification,
+    cacheStats: () => cache?.stats() ?? null,
+    dispose: async () => {
+      unsubscribe?.();
+      await cache?.flush();
     }
   };
 };
 
-const validateInput = (text: string): TaskEither<Error, string> => {
+const validateInput = (text: string): TaskEither<NLUError, string> => {
   if (!text || text.trim().length === 0) {
-    return left(new Error('Empty input'));
+    return left(validationError('empty', 0));
   }
   
   const trimmed = text.trim();
   
-  if (trimmed.length > 1000) {
-    return left(new Error('Input too long (max 1000 chars)'));
+  if (trimmed.length > MAX_INPUT_LENGTH) {
+    return left(validationError('too-long', trimmed.length, MAX_INPUT_LENGTH));
   }
   
-  if (trimmed.length < 3) {
-    return left(new Error('Input too short (min 3 chars)'));
+  if (trimmed.length < MIN_INPUT_LENGTH) {
+    return left(validationError('too-short', trimmed.length, MIN_INPUT_LENGTH));
   }
   
   return right(trimmed);
 };
 
-const callMinimaxForNLU = (text: string, context?: NLUContext): TaskEither<Error, any> => {
-  return TaskEither.tryCatch(
-    async () => {
-      const systemPrompt = createSystemPrompt(context);
-      
-      const response = await openai.chat.completions.create({
-        model: DEFAULT_MODEL,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: text }
-        ],
-        temperature: DEFAULT_TEMPERATURE,
-        max_tokens: DEFAULT_MAX_TOKENS,
-        response_format: { type: 'json_object' } as any
-      });
-
-      const content = response.choices[0].message.content;
-      if (!content) {
-        throw new Error('Empty response from AI');
+// Minimax M2 через OpenRouter, ключ берётся из окружения
+const createDefaultProvider = (): LLMProvider => {
+  return createOpenAICompatibleProvider({
+    apiKey: process.env.OPENROUTER_API_KEY,
+    baseUrl: process.env.OPENROUTER_BASE_URL
+  });
+};
+
+// VIBE_NLU_POLICY=rules-only позволяет работать без доступа к API (air-gapped CI)
+const policyFromEnv = (): NLUPolicy | undefined => {
+  const value = process.env.VIBE_NLU_POLICY as NLUPolicy | undefined;
+  return value && NLU_POLICIES.includes(value) ? value : undefined;
+};
+
+/**
+ * Маршруты остальных намерений составного запроса; намерения без агента пропускаются
+ */
+const additionalRoutes = (parsing: NLUParsing): Pick<AgentRoute, 'additionalRoutes'> => {
+  const routes = (parsing.additionalIntents ?? []).flatMap((intent): IntentRoute[] => {
+    const agentId = getBestAgent(intent, parsing.entities);
+    return agentId ? [{ intent: intent.name, agentId }] : [];
+  });
+
+  return routes.length > 0 ? { additionalRoutes: routes } : {};
+};
+
+/**
+ * Выбор пути разбора: правила работают без сети,
+ * поэтому при сбое LLM (сеть, таймаут, невалидный JSON) используются они
+ */
+const withPolicy = <A>(
+  policy: NLUPolicy,
+  llm: () => TaskEither<NLUError, A>,
+  rules: () => TaskEither<NLUError, A>
+): TaskEither<NLUError, A> => {
+  switch (policy) {
+    case 'llm-only':
+      return llm();
+    case 'rules-only':
+      return rules();
+    case 'rules-first':
+      return pipe(rules(), orElse(() => llm()));
+    case 'llm-first':
+      return pipe(
+        llm(),
+        // Отменённая задача не уходит в правила: отмена — не сбой LLM
+        orElse((llmError) =>
+          llmError.kind === 'cancelled'
+            ? left(llmError)
+            : pipe(
+              rules(),
+              mapLeft((rulesError) => withMessage(rulesError, llmError.message + '; rules fallback: ' + rulesError.message))
+            )
+        )
+      );
+  }
+};
+
+/**
+ * Ограничивает запрос к LLM по времени; отмена через signal завершает его сразу.
+ * В обоих случаях запрос к провайдеру прерывается собственным AbortController
+ */
+const withTimeout = <A>(
+  task: (signal: AbortSignal) => TaskEither<NLUError, A>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): TaskEither<NLUError, A> => {
+  return () => {
+    if (signal?.aborted) {
+      return Promise.resolve(leftE(cancelledError()));
+    }
+
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+    const timeout = new Promise<Either<NLUError, A>>((resolve) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        resolve(leftE(timeoutError(timeoutMs)));
+      }, timeoutMs);
+      onAbort = () => {
+        controller.abort();
+        resolve(leftE(cancelledError()));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    return Promise.race([task(controller.signal)(), timeout]).finally(() => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort!);
+    });
+  };
+};
+
+/**
+ * Запрос к LLM с проверкой ответа по схеме. Невалидный ответ возвращается
+ * модели с описанием ошибок, не более maxRepairAttempts раз
+ */
+const requestStructured = <T>(
+  config: LLMConfig,
+  request: LLMCompletionRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  label: string,
+  locale: NLULocale,
+  attemptsLeft: number = config.maxRepairAttempts
+): TaskEither<NLUError, T> => {
+  const attempt = pipe(
+    config.provider.complete(request),
+    mapLeft((error) => toNLUError(error, config.provider.name)),
+    map((completion) => ({ completion, validated: validateResponse(schema, completion.content, label) }))
+  );
+
+  return pipe(
+    config.tracer.trace(
+      'nlu.llm',
+      {
+        'llm.provider': config.provider.name,
+        'llm.model': request.model,
+        'llm.request': label,
+        'llm.attempt': config.maxRepairAttempts - attemptsLeft + 1
+      },
+      attempt,
+      ({ completion, validated }) => ({
+        'llm.response.model': completion.model,
+        'llm.tokens.input': completion.usage?.inputTokens,
+        'llm.tokens.output': completion.usage?.outputTokens,
+        'llm.valid': isRightE(validated),
+        'llm.issues': isLeftE(validated) ? validated.left.issues.join('; ') : undefined
+      })
+    ),
+    chain(({ completion, validated }): TaskEither<NLUError, T> => {
+      if (isRightE(validated)) {
+        return right(validated.right);
+      }
+
+      if (attemptsLeft <= 0) {
+        return left(validated.left);
       }
 
-      return content;
-    },
-    (error) => new Error('NLU Error: ' + error)
+      return requestStructured(
+        config,
+        {
+          ...request,
+          messages: [
+            ...request.messages,
+            { role: 'assistant', content: completion.content },
+            { role: 'user', content: createRepairPrompt(validated.left, locale) }
+          ]
+        },
+        schema,
+        label,
+        locale,
+        attemptsLeft - 1
+      );
+    })
   );
 };
 
-const callMinimaxForIntent = (text: string): TaskEither<Error, any> => {
-  return TaskEither.tryCatch(
-    async () => {
-      const response = await openai.chat.completions.create({
-        model: DEFAULT_MODEL,
+const callLLMForNLU = (
+  config: LLMConfig,
+  text: string,
+  locale: NLULocale,
+  context?: NLUContext,
+  signal?: AbortSignal
+): TaskEither<NLUError, NLUParsing> => {
+  return pipe(
+    requestStructured(
+      config,
+      {
+        model: config.model,
         messages: [
-          {
-            role: 'system',
-            content: 'Определи намерение пользователя. Ответ JSON: {"intent": {"name": "...", "confidence": 0.95, "description": "..."}}'
-          },
+          { role: 'system', content: createSystemPrompt(locale, context) },
           { role: 'user', content: text }
         ],
-        temperature: 0.2,
-        max_tokens: 200,
-        response_format: { type: 'json_object' } as any
-      });
-
-      return response.choices[0].message.content;
-    },
-    (error) => new Error('Intent Recognition Error: ' + error)
+        temperature: config.temperature ?? DEFAULT_TEMPERATURE,
+        maxTokens: config.maxTokens ?? DEFAULT_MAX_TOKENS,
+        json: true,
+        signal
+      },
+      NLUResponseSchema,
+      'NLU',
+      locale
+    ),
+    map((response) => ({
+      originalText: text,
+      intent: response.intent,
+      entities: response.entities,
+      suggestedAction: response.suggestedAction,
+      confidence: response.confidence
+    })),
+    mapLeft((error) => withMessage(error, 'NLU Error: ' + error.message))
   );
 };
 
-const callMinimaxForEntities = (text: string, intent: Intent): TaskEither<Error, any> => {
-  return TaskEither.tryCatch(
-    async () => {
-      const response = await openai.chat.completions.create({
-        model: DEFAULT_MODEL,
+const callLLMForIntent = (
+  config: LLMConfig,
+  text: string,
+  locale: NLULocale,
+  signal?: AbortSignal
+): TaskEither<NLUError, Intent> => {
+  return pipe(
+    requestStructured(
+      config,
+      {
+        model: config.model,
         messages: [
-          {
-            role: 'system',
-            content: 'Извлеки сущности из текста. Типы: framework, language, taskType, technology. Ответ JSON: {"entities": [{"type": "...", "value": "...", "confidence": 0.9}]}'
-          },
+          { role: 'system', content: getPrompt(locale, 'intent') },
           { role: 'user', content: text }
         ],
-        temperature: 0.2,
-        max_tokens: 300,
-        response_format: { type: 'json_object' } as any
-      });
-
-      return response.choices[0].message.content;
-    },
-    (error) => new Error('Entity Extraction Error: ' + error)
+        temperature: config.temperature ?? 0.2,
+        maxTokens: config.maxTokens ?? 200,
+        json: true,
+        signal
+      },
+      IntentResponseSchema,
+      'intent',
+      locale
+    ),
+    map((response) => response.intent),
+    mapLeft((error) => withMessage(error, 'Intent Recognition Error: ' + error.message))
   );
 };
 
-const parseNLUResponse = (response: string): NLUParsing => {
-  try {
-    const parsed = JSON.parse(response);
-    
-    return {
-      originalText: parsed.originalText || '',
-      intent: {
-        name: parsed.intent?.name || 'unknown',
-        confidence: parsed.intent?.confidence || 0.5,
-        description: parsed.intent?.description || ''
+const callLLMForEntities = (
+  config: LLMConfig,
+  text: string,
+  intent: Intent,
+  locale: NLULocale,
+  signal?: AbortSignal
+): TaskEither<NLUError, Entity[]> => {
+  return pipe(
+    requestStructured(
+      config,
+      {
+        model: config.model,
+        messages: [
+          { role: 'system', content: getPrompt(locale, 'entities', { intent: intent.name }) },
+          { role: 'user', content: text }
+        ],
+        temperature: config.temperature ?? 0.2,
+        maxTokens: config.maxTokens ?? 300,
+        json: true,
+        signal
       },
-      entities: parsed.entities || [],
-      suggestedAction: parsed.suggestedAction || '',
-      confidence: parsed.confidence || 0.5
-    };
-  } catch (error) {
-    throw new Error('Failed to parse NLU response: ' + error);
-  }
+      EntitiesResponseSchema,
+      'entities',
+      locale
+    ),
+    map((response) => response.entities),
+    mapLeft((error) => withMessage(error, 'Entity Extraction Error: ' + error.message))
+  );
 };
 
-const parseIntentResponse = (response: string): Intent => {
-  try {
-    const parsed = JSON.parse(response);
-    return {
-      name: parsed.intent?.name || 'unknown',
-      confidence: parsed.intent?.confidence || 0.5,
-      description: parsed.intent?.description || ''
-    };
-  } catch (error) {
-    throw new Error('Failed to parse intent response: ' + error);
-  }
-};
+/**
+ * Системный промпт на языке запроса
+ */
+const createSystemPrompt = (locale: NLULocale, context?: NLUContext): string => {
+  const routes = agentRegistry.getRoutingMap();
+  const intents = Object.keys(routes)
+    .map(intent => `- ${intent} → ${routes[intent]}`)
+    .join('\n');
 
-const parseEntitiesResponse = (response: string): Entity[] => {
-  try {
-    const parsed = JSON.parse(response);
-    return parsed.entities || [];
-  } catch (error) {
-    throw new Error('Failed to parse entities response: ' + error);
+  let prompt = getPrompt(locale, 'system', { intents });
+
+  if (context?.projectContext) {
+    prompt += '\n\n' + getPrompt(locale, 'projectContext') + JSON.stringify(context.projectContext);
   }
-};
 
-const createSystemPrompt = (context?: NLUContext): string => {
-  let prompt = 'Ты NLU система для Vibe Agents.\n\nПроанализируй запрос и верни JSON с:\n1. intent - намерение пользователя\n2. entities - сущности (framework, language, etc)\n3. suggestedAction - рекомендуемое действие\n4. confidence - уверенность (0-1)\n\nДоступные intents:\n- create-component, create-application, develop-api\n- write-tests, security-audit, setup-ci\n- optimize-performance, refactor-code\n- debug-issue, generate-documentation';
+  if (context?.userPreferences) {
+    prompt += '\n\n' + getPrompt(locale, 'preferences') + JSON.stringify(context.userPreferences);
+  }
 
-  if (context?.projectContext) {
-    prompt += '\n\nКонтекст проекта: ' + JSON.stringify(context.projectContext);
+  const history = (context?.conversationHistory ?? []).slice(-PROMPT_HISTORY_TURNS);
+  if (history.length > 0) {
+    prompt += '\n\n' + getPrompt(locale, 'history') + '\n' +
+      history.map(turn => `${turn.role}: ${turn.content}`).join('\n');
   }
 
-  prompt += '\n\nОтвет в формате JSON согласно схеме.';
+  prompt += '\n\n' + getPrompt(locale, 'answerFormat');
 
   return prompt;
 };
 
-const routeToAgentByIntent = (intent: Intent): TaskEither<Error, string> => {
-  const routingMap: Record<string, string> = {
-    'create-component': 'vibe-coder',
-    'create-application': 'vibe-lead',
-    'develop-api': 'vibe-coder',
-    'write-tests': 'vibe-tester',
-    'security-audit': 'vibe-security',
-    'setup-ci': 'vibe-devops',
-    'optimize-performance': 'vibe-diagnostics',
-    'refactor-code': 'vibe-critic',
-    'debug-issue': 'vibe-coder',
-    'generate-documentation': 'vibe-knowledge-keeper'
-  };
+/**
+ * Маршрут из конфигурации, а без него или при полной загрузке агента — выбор по компетенциям
+ */
+const routeToAgentByIntent = (intent: Intent, entities: Entity[]): TaskEither<NLUError, string> => {
+  const agentId = getBestAgent(intent, entities);
 
-  const agentId = routingMap[intent.name];
-  
   if (!agentId) {
-    return left(new Error('No agent found for intent: ' + intent.name));
+    return left(noRouteError(intent.name));
   }
 
   return right(agentId);
 };
 
-const generateTaskFromNLU = (intent: Intent, entities: Entity[]): any => {
-  const framework = entities.find(e => e.type === 'framework')?.value;
-  const language = entities.find(e => e.type === 'language')?.value;
-  
-  return {
-    type: intent.name,
-    framework: framework || 'React',
-    language: language || 'TypeScript',
-    entities,
-    generatedFrom: 'NLU',
-    originalIntent: intent.name
-  };
-};
-
 export const nluService = createNLUService();
@@ -0,0 +1,154 @@
+/**
+ * 🔭 Project Scanner
+ * Detect framework, language, tests and CI from a working directory
+ */
+
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { TaskEither, tryCatch, map } from 'fp-ts/lib/TaskEither';
+import { pipe } from 'fp-ts/lib/function';
+import { NLUContext } from './types';
+
+export type ProjectContext = NonNullable<NLUContext['projectContext']>;
+
+export interface ProjectScan {
+  dir: string;
+  projectContext: ProjectContext;
+  evidence: string[];
+}
+
+// Порядок важен: мета-фреймворки проверяются раньше базовых (Next.js раньше React)
+const JS_FRAMEWORKS: Array<{ name: string; packages: string[] }> = [
+  { name: 'Next.js', packages: ['next'] },
+  { name: 'Nuxt', packages: ['nuxt'] },
+  { name: 'Remix', packages: ['@remix-run/react', '@remix-run/node'] },
+  { name: 'Astro', packages: ['astro'] },
+  { name: 'Angular', packages: ['@angular/core'] },
+  { name: 'Svelte', packages: ['svelte', '@sveltejs/kit'] },
+  { name: 'Vue', packages: ['vue'] },
+  { name: 'React', packages: ['react'] },
+  { name: 'Express', packages: ['express'] }
+];
+
+const PYTHON_FRAMEWORKS: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'Django', pattern: /\bdjango\b/i },
+  { name: 'FastAPI', pattern: /\bfastapi\b/i },
+  { name: 'Flask', pattern: /\bflask\b/i }
+];
+
+const JS_TEST_PACKAGES = ['jest', 'vitest', 'mocha', 'ava', 'cypress', '@playwright/test', '@testing-library/react'];
+
+const TEST_DIRECTORIES = ['test', 'tests', '__tests__', 'spec', 'e2e', 'cypress'];
+
+const TEST_CONFIG_PATTERN = /^(jest|vitest|playwright|cypress|karma)\.config\.|^(pytest\.ini|conftest\.py|\.mocharc)/;
+
+const CI_FILES = ['.gitlab-ci.yml', '.circleci', 'Jenkinsfile', 'azure-pipelines.yml', '.travis.yml'];
+
+export const scanProject = (dir: string): TaskEither<Error, ProjectScan> => {
+  return tryCatch(
+    async () => {
+      const entries = await readdir(dir);
+      const evidence: string[] = [];
+      const projectContext: ProjectContext = {};
+
+      const packageJson = entries.includes('package.json')
+        ? JSON.parse(await readFile(join(dir, 'package.json'), 'utf-8'))
+        : null;
+      const dependencies: Record<string, string> = {
+        ...packageJson?.dependencies,
+        ...packageJson?.devDependencies,
+        ...packageJson?.peerDependencies
+      };
+
+      // Язык
+      if (entries.includes('tsconfig.json') || dependencies.typescript) {
+        projectContext.language = 'TypeScript';
+        evidence.push(entries.includes('tsconfig.json') ? 'tsconfig.json' : 'package.json: typescript');
+      } else if (packageJson) {
+        projectContext.language = 'JavaScript';
+        evidence.push('package.json');
+      } else if (entries.some(e => ['pyproject.toml', 'requirements.txt', 'setup.py', 'Pipfile'].includes(e))) {
+        projectContext.language = 'Python';
+        evidence.push('python project files');
+      } else if (entries.includes('go.mod')) {
+        projectContext.language = 'Go';
+        evidence.push('go.mod');
+      } else if (entries.includes('Cargo.toml')) {
+        projectContext.language = 'Rust';
+        evidence.push('Cargo.toml');
+      }
+
+      // Фреймворк
+      const jsFramework = JS_FRAMEWORKS.find(f => f.packages.some(p => p in dependencies));
+      if (jsFramework) {
+        projectContext.framework = jsFramework.name;
+        evidence.push(`package.json: ${jsFramework.packages.find(p => p in dependencies)}`);
+      } else if (projectContext.language === 'Python') {
+        const manifest = await readFirst(dir, entries, ['pyproject.toml', 'requirements.txt', 'Pipfile', 'setup.py']);
+        const pyFramework = PYTHON_FRAMEWORKS.find(f => f.pattern.test(manifest));
+        if (pyFramework) {
+          projectContext.framework = pyFramework.name;
+          evidence.push(`python dependency: ${pyFramework.name}`);
+        }
+      }
+
+      // Тесты
+      const testDir = await findDirectory(dir, entries, TEST_DIRECTORIES);
+      const testConfig = entries.find(e => TEST_CONFIG_PATTERN.test(e));
+      const testPackage = JS_TEST_PACKAGES.find(p => p in dependencies);
+      const goTests = entries.some(e => e.endsWith('_test.go'));
+      projectContext.hasTests = Boolean(testDir || testConfig || testPackage || goTests);
+      if (projectContext.hasTests) {
+        evidence.push('tests: ' + (testDir ?? testConfig ?? testPackage ?? '*_test.go'));
+      }
+
+      // CI
+      const workflows = await listDirectory(join(dir, '.github', 'workflows'));
+      const ciFile = CI_FILES.find(f => entries.includes(f));
+      const hasWorkflows = workflows.some(f => /\.ya?ml$/.test(f));
+      projectContext.hasCI = hasWorkflows || Boolean(ciFile);
+      if (projectContext.hasCI) {
+        evidence.push('ci: ' + (hasWorkflows ? '.github/workflows' : ciFile));
+      }
+
+      return { dir, projectContext, evidence };
+    },
+    (error) => new Error('Project scan error: ' + (error instanceof Error ? error.message : error))
+  );
+};
+
+/**
+ * Контекст для processNaturalLanguage; явно переданные поля важнее найденных
+ */
+export const detectProjectContext = (dir: string, base: NLUContext = {}): TaskEither<Error, NLUContext> => {
+  return pipe(
+    scanProject(dir),
+    map((scan) => ({
+      ...base,
+      projectContext: { ...scan.projectContext, ...base.projectContext }
+    }))
+  );
+};
+
+const findDirectory = async (dir: string, entries: string[], names: string[]): Promise<string | undefined> => {
+  for (const name of names) {
+    if (entries.includes(name) && (await stat(join(dir, name))).isDirectory()) {
+      return name;
+    }
+  }
+
+  return undefined;
+};
+
+const listDirectory = async (dir: string): Promise<string[]> => {
+  try {
+    return await readdir(dir);
+  } catch {
+    return [];
+  }
+};
+
+const readFirst = async (dir: string, entries: string[], names: string[]): Promise<string> => {
+  const name = names.find(n => entries.includes(n));
+  return name ? readFile(join(dir, name), 'utf-8') : '';
+};
@@ -0,0 +1,102 @@
+/**
+ * 🔌 Anthropic-style Provider
+ * Messages API: system-промпт передаётся отдельным полем
+ */
+
+import { tryCatch } from 'fp-ts/lib/TaskEither';
+import { z } from 'zod';
+import { FetchLike, LLMCompletionRequest, LLMProvider } from './types';
+import { providerError, toNLUError, withMessage } from '../errors';
+
+export interface AnthropicOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  version?: string;
+  headers?: Record<string, string>;
+  fetch?: FetchLike;
+}
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com/v1';
+const DEFAULT_VERSION = '2023-06-01';
+const PROVIDER_NAME = 'anthropic';
+
+// Блоки ответа, кроме text (tool_use, thinking), в разбор не попадают
+const MessagesResponseSchema = z.object({
+  model: z.string().optional(),
+  content: z.array(z.object({ type: z.string(), text: z.string().optional() })).default([]),
+  usage: z.object({
+    input_tokens: z.number().optional(),
+    output_tokens: z.number().optional()
+  }).optional()
+});
+
+export const createAnthropicProvider = (options: AnthropicOptions = {}): LLMProvider => {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+  const doFetch = options.fetch ?? (fetch as unknown as FetchLike);
+
+  return {
+    name: PROVIDER_NAME,
+
+    complete: (request: LLMCompletionRequest) => {
+      return tryCatch(
+        async () => {
+          const system = request.messages
+            .filter(m => m.role === 'system')
+            .map(m => m.content)
+            .join('\n\n');
+
+          const response = await doFetch(`${baseUrl}/messages`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'anthropic-version': options.version ?? DEFAULT_VERSION,
+              ...(options.apiKey ? { 'x-api-key': options.apiKey } : {}),
+              ...options.headers
+            },
+            body: JSON.stringify({
+              model: request.model,
+              // Messages API не поддерживает response_format: JSON запрашивается в system-промпте
+              system: system || undefined,
+              messages: request.messages.filter(m => m.role !== 'system'),
+              temperature: request.temperature,
+              max_tokens: request.maxTokens
+            }),
+            signal: request.signal
+          });
+
+          if (!response.ok) {
+            throw providerError(PROVIDER_NAME, `HTTP ${response.status}: ${await response.text()}`, response.status);
+          }
+
+          const parsed = MessagesResponseSchema.safeParse(await response.json());
+          if (!parsed.success) {
+            const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+            throw providerError(PROVIDER_NAME, 'Unexpected response format: ' + issues.join('; '));
+          }
+
+          const data = parsed.data;
+          const content = data.content
+            .filter(block => block.type === 'text')
+            .map(block => block.text ?? '')
+            .join('');
+
+          if (!content) {
+            throw providerError(PROVIDER_NAME, 'Empty response from AI');
+          }
+
+          return {
+            content,
+            model: data.model ?? request.model,
+            usage: data.usage
+              ? { inputTokens: data.usage.input_tokens ?? 0, outputTokens: data.usage.output_tokens ?? 0 }
+              : undefined
+          };
+        },
+        (error) => {
+          const providerFailure = toNLUError(error, PROVIDER_NAME);
+          return withMessage(providerFailure, 'Anthropic provider error: ' + providerFailure.message);
+        }
+      );
+    }
+  };
+};
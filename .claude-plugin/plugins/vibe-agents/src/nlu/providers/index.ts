@@ -0,0 +1,8 @@
+/**
+ * 🔌 LLM Providers
+ */
+
+export * from './types';
+export * from './openai-compatible';
+export * from './anthropic';
+export * from './mock';
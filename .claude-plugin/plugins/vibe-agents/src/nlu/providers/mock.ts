@@ -0,0 +1,53 @@
+/**
+ * 🔌 Mock Provider
+ * Детерминированные ответы без сети, для тестов и офлайн-прогонов
+ */
+
+import { left, right } from 'fp-ts/lib/Either';
+import { LLMCompletionRequest, LLMProvider } from './types';
+
+export type MockResponder = (request: LLMCompletionRequest) => string | Error;
+
+export interface MockProviderOptions {
+  responses?: Record<string, string>;
+  respond?: MockResponder;
+  fallback?: string;
+}
+
+export interface MockProvider extends LLMProvider {
+  calls: LLMCompletionRequest[];
+}
+
+/**
+ * Ответ выбирается по последнему сообщению пользователя:
+ * сначала `responses`, затем `respond`, затем `fallback`
+ */
+export const createMockProvider = (options: MockProviderOptions = {}): MockProvider => {
+  const calls: LLMCompletionRequest[] = [];
+
+  return {
+    name: 'mock',
+    calls,
+
+    complete: (request: LLMCompletionRequest) => async () => {
+      calls.push(request);
+
+      const userMessage = [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+      const content = options.responses?.[userMessage] ?? options.respond?.(request) ?? options.fallback;
+
+      if (content === undefined) {
+        return left(new Error('Mock provider has no response for: ' + userMessage));
+      }
+
+      if (content instanceof Error) {
+        return left(content);
+      }
+
+      return right({
+        content,
+        model: request.model,
+        usage: { inputTokens: 0, outputTokens: 0 }
+      });
+    }
+  };
+};
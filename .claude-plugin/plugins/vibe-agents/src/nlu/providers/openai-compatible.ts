@@ -0,0 +1,73 @@
+/**
+ * 🔌 OpenAI-compatible Provider
+ * Chat Completions API: OpenRouter, OpenAI, локальные серверы
+ */
+
+import { tryCatch } from 'fp-ts/lib/TaskEither';
+import { FetchLike, LLMCompletionRequest, LLMProvider } from './types';
+import { providerError, toNLUError, withMessage } from '../errors';
+
+export interface OpenAICompatibleOptions {
+  apiKey?: string;
+  baseUrl?: string;
+  headers?: Record<string, string>;
+  fetch?: FetchLike;
+}
+
+const DEFAULT_BASE_URL = 'https://openrouter.ai/api/v1';
+const PROVIDER_NAME = 'openai-compatible';
+
+export const createOpenAICompatibleProvider = (options: OpenAICompatibleOptions = {}): LLMProvider => {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+  const doFetch = options.fetch ?? (fetch as unknown as FetchLike);
+
+  return {
+    name: PROVIDER_NAME,
+
+    complete: (request: LLMCompletionRequest) => {
+      return tryCatch(
+        async () => {
+          const response = await doFetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+              ...options.headers
+            },
+            body: JSON.stringify({
+              model: request.model,
+              messages: request.messages,
+              temperature: request.temperature,
+              max_tokens: request.maxTokens,
+              ...(request.json ? { response_format: { type: 'json_object' } } : {})
+            }),
+            signal: request.signal
+          });
+
+          if (!response.ok) {
+            throw providerError(PROVIDER_NAME, `HTTP ${response.status}: ${await response.text()}`, response.status);
+          }
+
+          const data = await response.json();
+          const content = data.choices?.[0]?.message?.content;
+
+          if (!content) {
+            throw providerError(PROVIDER_NAME, 'Empty response from AI');
+          }
+
+          return {
+            content,
+            model: data.model ?? request.model,
+            usage: data.usage
+              ? { inputTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 }
+              : undefined
+          };
+        },
+        (error) => {
+          const providerFailure = toNLUError(error, PROVIDER_NAME);
+          return withMessage(providerFailure, 'OpenAI-compatible provider error: ' + providerFailure.message);
+        }
+      );
+    }
+  };
+};
@@ -0,0 +1,47 @@
+/**
+ * 🔌 LLM Provider Type Definitions
+ */
+
+import { TaskEither } from 'fp-ts/lib/TaskEither';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  model: string;
+  messages: LLMMessage[];
+  temperature: number;
+  maxTokens: number;
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete: (request: LLMCompletionRequest) => TaskEither<Error, LLMCompletion>;
+}
+
+export type FetchLike = (url: string, init: {
+  method: string;
+  headers: Record<string, string>;
+  body: string;
+  signal?: AbortSignal;
+}) => Promise<{
+  ok: boolean;
+  status: number;
+  text: () => Promise<string>;
+  json: () => Promise<any>;
+}>;
@@ -0,0 +1,88 @@
+/**
+ * 📐 LLM Response Schemas
+ * Zod validation for NLU, intent and entity responses
+ */
+
+import { z } from 'zod';
+import { Either, left, right } from 'fp-ts/lib/Either';
+import { NLULocale, NLUParseError } from './types';
+import { DEFAULT_LOCALE, getPrompt } from './locales';
+import { parseError } from './errors';
+
+const IntentShape = z.object({
+  name: z.string().min(1),
+  confidence: z.number().min(0).max(1),
+  description: z.string().default('')
+});
+
+const EntityShape = z.object({
+  type: z.string().min(1),
+  value: z.string().min(1),
+  confidence: z.number().min(0).max(1),
+  start: z.number().int().nonnegative().optional(),
+  end: z.number().int().nonnegative().optional()
+});
+
+export const NLUResponseSchema = z.object({
+  intent: IntentShape,
+  entities: z.array(EntityShape).default([]),
+  suggestedAction: z.string().default(''),
+  confidence: z.number().min(0).max(1)
+});
+
+export const IntentResponseSchema = z.object({
+  intent: IntentShape
+});
+
+export const EntitiesResponseSchema = z.object({
+  entities: z.array(EntityShape)
+});
+
+export type NLUResponse = z.infer<typeof NLUResponseSchema>;
+export type IntentResponse = z.infer<typeof IntentResponseSchema>;
+export type EntitiesResponse = z.infer<typeof EntitiesResponseSchema>;
+
+const FENCE_PATTERN = /^\s*```[a-zA-Z]*\s*\n?([\s\S]*?)\n?\s*```\s*$/;
+
+/**
+ * Модели часто оборачивают JSON в ```json ... ``` или добавляют текст вокруг
+ */
+export const stripCodeFences = (raw: string): string => {
+  const fenced = raw.match(FENCE_PATTERN);
+  if (fenced) {
+    return fenced[1].trim();
+  }
+
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  return start >= 0 && end > start ? raw.slice(start, end + 1) : raw.trim();
+};
+
+export const validateResponse = <T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  raw: string,
+  label: string
+): Either<NLUParseError, T> => {
+  let json: unknown;
+
+  try {
+    json = JSON.parse(stripCodeFences(raw));
+  } catch (error) {
+    return left(parseError(label, raw, ['invalid JSON: ' + (error instanceof Error ? error.message : error)]));
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    return left(parseError(
+      label,
+      raw,
+      parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    ));
+  }
+
+  return right(parsed.data);
+};
+
+export const createRepairPrompt = (error: NLUParseError, locale: NLULocale = DEFAULT_LOCALE): string => {
+  return getPrompt(locale, 'repair', { issues: error.issues.map(issue => '- ' + issue).join('\n') });
+};
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findPhrase, stem, stemPhrase, tokenize } from './tokenizer';
+
+describe('tokenize', () => {
+  it('keeps compound tokens and their positions', () => {
+    const tokens = tokenize('Настрой CI/CD для Next.js на C#');
+
+    assert.deepEqual(tokens.map(t => t.text), ['Настрой', 'CI/CD', 'для', 'Next.js', 'на', 'C#']);
+    assert.deepEqual(tokens.map(t => t.normalized), ['настрой', 'ci/cd', 'для', 'next.js', 'на', 'c#']);
+    assert.deepEqual([tokens[1].start, tokens[1].end], [8, 13]);
+  });
+
+  it('normalizes ё to е', () => {
+    assert.equal(tokenize('Ещё')[0].normalized, 'еще');
+  });
+});
+
+describe('stem', () => {
+  it('cuts the longest Russian ending', () => {
+    assert.equal(stem('создайте'), 'созд');
+    assert.equal(stem('компонента'), 'компонент');
+  });
+
+  it('cuts English suffixes but keeps double s', () => {
+    assert.equal(stem('testing'), 'test');
+    assert.equal(stem('components'), 'component');
+    assert.equal(stem('class'), 'class');
+  });
+
+  it('keeps short words and compound tokens whole', () => {
+    assert.equal(stem('api'), 'api');
+    assert.equal(stem('next.js'), 'next.js');
+    assert.equal(stem('e2e'), 'e2e');
+  });
+});
+
+describe('findPhrase', () => {
+  it('matches phrases by stems', () => {
+    const tokens = tokenize('напиши тесты и ещё тестов');
+
+    assert.deepEqual(findPhrase(tokens, stemPhrase('тест')), [1, 4]);
+    assert.deepEqual(findPhrase(tokens, stemPhrase('напишите тест')), [0]);
+  });
+
+  it('finds nothing for an empty phrase', () => {
+    assert.deepEqual(findPhrase(tokenize('любой текст'), []), []);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * ✂️ Tokenizer
+ * Токенизация и упрощённый стемминг для русского и английского
+ */
+
+export interface Token {
+  text: string;
+  normalized: string;
+  stem: string;
+  start: number;
+  end: number;
+}
+
+// Слова, включая составные: next.js, ci/cd, веб-сайт, c#, e2e
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:[.\-\/][\p{L}\p{N}]+)*[#+]*/gu;
+
+// Окончания отсортированы по убыванию длины: отрезается самое длинное
+const RUSSIAN_ENDINGS = [
+  'айте', 'яйте', 'ите', 'ать', 'ять', 'ить', 'еть', 'уть', 'ами', 'ями', 'ого', 'его', 'ому', 'ему',
+  'ыми', 'ими', 'ай', 'яй', 'ой', 'ей', 'ий', 'ый', 'ую', 'юю', 'ая', 'яя', 'ое', 'ее', 'ые', 'ие',
+  'ах', 'ях', 'ов', 'ев', 'ом', 'ем', 'ам', 'ям', 'а', 'я', 'о', 'е', 'ы', 'и', 'у', 'ю', 'ь', 'й'
+];
+
+const ENGLISH_SUFFIXES = ['ing', 'ed', 's'];
+
+const MIN_STEM_LENGTH = 3;
+
+export const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const normalized = match[0].toLowerCase().replace(/ё/g, 'е');
+    tokens.push({
+      text: match[0],
+      normalized,
+      stem: stem(normalized),
+      start: match.index!,
+      end: match.index! + match[0].length
+    });
+  }
+
+  return tokens;
+};
+
+export const stem = (word: string): string => {
+  // Составные токены (next.js, ci/cd) сравниваются целиком
+  if (/[.\-\/#+\d]/.test(word)) {
+    return word;
+  }
+
+  const endings = /[а-я]/.test(word) ? RUSSIAN_ENDINGS : ENGLISH_SUFFIXES;
+
+  for (const ending of endings) {
+    if (word.endsWith(ending) && word.length - ending.length >= MIN_STEM_LENGTH) {
+      if (ending === 's' && word.endsWith('ss')) {
+        continue;
+      }
+      return word.slice(0, -ending.length);
+    }
+  }
+
+  return word;
+};
+
+export const stemPhrase = (phrase: string): string[] => {
+  return tokenize(phrase).map(token => token.stem);
+};
+
+/**
+ * Позиции, с которых последовательность стемов фразы встречается в тексте
+ */
+export const findPhrase = (tokens: Token[], phraseStems: string[]): number[] => {
+  const positions: number[] = [];
+
+  if (phraseStems.length === 0) {
+    return positions;
+  }
+
+  for (let i = 0; i + phraseStems.length <= tokens.length; i++) {
+    if (phraseStems.every((s, j) => tokens[i + j].stem === s)) {
+      positions.push(i);
+    }
+  }
+
+  return positions;
+};
@@ -3,6 +3,9 @@
  */
 
 import { TaskEither } from 'fp-ts/lib/TaskEither';
+import { LLMProvider } from './providers/types';
+import { NLUCacheOptions, NLUCacheStats } from './nlu-cache';
+import { Tracer } from '../tracing/tracer';
 
 export interface Intent {
   name: string;
@@ -11,20 +14,33 @@ export interface Intent {
   entities?: string[];
 }
 
+export type EntityOrigin = 'text' | 'conversation' | 'project' | 'preferences';
+
 export interface Entity {
   type: string;
   value: string;
   confidence: number;
   start?: number;
   end?: number;
+  origin?: EntityOrigin;
 }
 
+export type NLUPolicy = 'llm-only' | 'rules-only' | 'rules-first' | 'llm-first';
+
+export type NLUSource = 'llm' | 'rules';
+
+// Код языка ISO 639-1: 'ru', 'en', 'uk', 'de'…
+export type NLULocale = string;
+
 export interface NLUParsing {
   originalText: string;
   intent: Intent;
   entities: Entity[];
   suggestedAction: string;
   confidence: number;
+  source?: NLUSource;
+  additionalIntents?: Intent[];
+  locale?: NLULocale;
 }
 
 export interface AgentRoute {
@@ -34,6 +50,14 @@ export interface AgentRoute {
   task: any;
   confidence: number;
   originalText: string;
+  source?: NLUSource;
+  // Остальные намерения составного запроса и их агенты
+  additionalRoutes?: IntentRoute[];
+}
+
+export interface IntentRoute {
+  intent: string;
+  agentId: string;
 }
 
 export interface NLUOptions {
@@ -42,6 +66,12 @@ export interface NLUOptions {
   maxTokens?: number;
   minConfidence?: number;
   enableCache?: boolean;
+  policy?: NLUPolicy;
+  timeoutMs?: number;
+  provider?: LLMProvider;
+  cacheOptions?: NLUCacheOptions;
+  maxRepairAttempts?: number;
+  tracer?: Tracer;
 }
 
 export interface NLUResult {
@@ -68,12 +98,157 @@ export interface NLUContext {
     hasTests?: boolean;
     hasCI?: boolean;
   };
+  // Отмена задачи прерывает запросы к LLM
+  signal?: AbortSignal;
+}
+
+export type ClarificationReason = 'low-confidence' | 'ambiguous' | 'unknown-intent';
+
+export interface ClarificationQuestion {
+  id: string;
+  kind: 'intent' | 'entity';
+  text: string;
+  options?: string[];
+}
+
+export interface ClarificationRequest {
+  originalText: string;
+  locale: NLULocale;
+  reason: ClarificationReason;
+  confidence: number;
+  candidates: Intent[];
+  missingEntities: string[];
+  questions: ClarificationQuestion[];
+}
+
+export interface LocaleEntityPattern {
+  name: string;
+  patterns: string[];
+  ambiguous?: string[];
+}
+
+/**
+ * Языковой пакет: ключевые слова, подписи и промпты одного языка.
+ * Недостающие подписи и вопросы берутся из пакета по умолчанию (en)
+ */
+export interface LocalePack {
+  locale: NLULocale;
+  script: 'cyrillic' | 'latin';
+  // Буквы, которых нет в других языках с тем же алфавитом (ы, э для ru; і, ї для uk)
+  letters?: string;
+  // Частые служебные слова: различают языки с общим алфавитом
+  stopwords: string[];
+  intents: Record<string, { keywords: string[]; weakKeywords?: string[] }>;
+  entities: Record<string, LocaleEntityPattern[]>;
+  markers: {
+    // «тесты для API»: слово после маркера — объект задачи
+    object: string[];
+    // «API на Go»: после маркера идёт технология
+    tech: string[];
+    // «теперь добавь тесты к нему»: ссылка на предыдущую реплику
+    followUp: string[];
+  };
+  intentLabels: Record<string, string>;
+  clarification: {
+    questions: Record<ClarificationReason, string>;
+    entities: Record<string, string>;
+  };
+  // {intents}, {intent} и {issues} подставляются при сборке промпта
+  prompts: {
+    system: string;
+    projectContext: string;
+    preferences: string;
+    history: string;
+    answerFormat: string;
+    intent: string;
+    entities: string;
+    repair: string;
+  };
+}
+
+export type NLUOutcome =
+  | { kind: 'routed'; route: AgentRoute }
+  | { kind: 'clarification'; clarification: ClarificationRequest };
+
+export type NLUErrorKind =
+  | 'validation'
+  | 'provider'
+  | 'parse'
+  | 'unknown-intent'
+  | 'no-route'
+  | 'low-confidence'
+  | 'timeout'
+  | 'cancelled';
+
+export interface NLUValidationError extends Error {
+  kind: 'validation';
+  reason: 'empty' | 'too-long' | 'too-short';
+  length: number;
+  limit?: number;
+}
+
+export interface NLUProviderError extends Error {
+  kind: 'provider';
+  provider: string;
+  status?: number;
+}
+
+export interface NLUParseError extends Error {
+  kind: 'parse';
+  raw: string;
+  issues: string[];
+}
+
+export interface NLUUnknownIntentError extends Error {
+  kind: 'unknown-intent';
+  text: string;
+  clarification?: ClarificationRequest;
 }
 
+export interface NLUNoRouteError extends Error {
+  kind: 'no-route';
+  intent: string;
+}
+
+export interface NLULowConfidenceError extends Error {
+  kind: 'low-confidence';
+  confidence: number;
+  minConfidence: number;
+  clarification: ClarificationRequest;
+}
+
+export interface NLUTimeoutError extends Error {
+  kind: 'timeout';
+  timeoutMs: number;
+}
+
+export interface NLUCancelledError extends Error {
+  kind: 'cancelled';
+}
+
+export type NLUError =
+  | NLUValidationError
+  | NLUProviderError
+  | NLUParseError
+  | NLUUnknownIntentError
+  | NLUNoRouteError
+  | NLULowConfidenceError
+  | NLUTimeoutError
+  | NLUCancelledError;
+
 export type NLUService = {
-  parseText: (text: string, context?: NLUContext) => TaskEither<Error, NLUParsing>;
-  recognizeIntent: (text: string) => TaskEither<Error, Intent>;
-  extractEntities: (text: string, intent: Intent) => TaskEither<Error, Entity[]>;
-  routeToAgent: (intent: Intent, entities: Entity[]) => TaskEither<Error, AgentRoute>;
-  processNaturalLanguage: (text: string, context?: NLUContext) => TaskEither<Error, AgentRoute>;
+  parseText: (text: string, context?: NLUContext) => TaskEither<NLUError, NLUParsing>;
+  recognizeIntent: (text: string) => TaskEither<NLUError, Intent>;
+  extractEntities: (text: string, intent: Intent) => TaskEither<NLUError, Entity[]>;
+  routeToAgent: (intent: Intent, entities: Entity[]) => TaskEither<NLUError, AgentRoute>;
+  processNaturalLanguage: (text: string, context?: NLUContext) => TaskEither<NLUError, AgentRoute>;
+  understand: (text: string, context?: NLUContext) => TaskEither<NLUError, NLUOutcome>;
+  resolveClarification: (
+    clarification: ClarificationRequest,
+    answer: string,
+    context?: NLUContext
+  ) => TaskEither<NLUError, NLUOutcome>;
+  cacheStats: () => NLUCacheStats | null;
+  // Отписывает кэш от изменений конфигурации NLU и дописывает его файл
+  dispose: () => Promise<void>;
 };
@@ -0,0 +1,10 @@
+/**
+ * 🐝 Task Pipeline
+ * Multi-agent execution behind /task
+ */
+
+export * from './types';
+export * from './task-pipeline';
+export * from './scheduler';
+export * from './review-loop';
+export * from './progress-stream';
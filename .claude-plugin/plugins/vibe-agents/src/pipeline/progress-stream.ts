@@ -0,0 +1,102 @@
+/**
+ * 📡 Progress Stream
+ * Push-based async iterator for task progress events
+ */
+
+export interface ProgressStream<T> extends AsyncIterableIterator<T> {
+  push: (value: T) => void;
+  end: () => void;
+  fail: (error: Error) => void;
+}
+
+/**
+ * События копятся, пока потребитель их не заберёт; после end/fail
+ * потребитель получает оставшиеся события, затем завершение или ошибку
+ */
+export const createProgressStream = <T>(): ProgressStream<T> => {
+  const buffer: T[] = [];
+  let waiting: { resolve: (result: IteratorResult<T>) => void; reject: (error: Error) => void } | undefined;
+  let closed = false;
+  let failure: Error | undefined;
+
+  // Ожидающий потребитель есть только при пустом буфере
+  const settle = () => {
+    if (!waiting) {
+      return;
+    }
+
+    const consumer = waiting;
+    waiting = undefined;
+
+    if (failure) {
+      consumer.reject(failure);
+      failure = undefined;
+    } else {
+      consumer.resolve({ value: undefined, done: true });
+    }
+  };
+
+  const stream: ProgressStream<T> = {
+    push: (value: T) => {
+      if (closed) {
+        return;
+      }
+
+      if (waiting) {
+        const consumer = waiting;
+        waiting = undefined;
+        consumer.resolve({ value, done: false });
+      } else {
+        buffer.push(value);
+      }
+    },
+
+    end: () => {
+      closed = true;
+      settle();
+    },
+
+    fail: (error: Error) => {
+      if (closed) {
+        return;
+      }
+      closed = true;
+      failure = error;
+      settle();
+    },
+
+    next: () => {
+      if (buffer.length > 0) {
+        return Promise.resolve({ value: buffer.shift()!, done: false });
+      }
+
+      if (failure) {
+        const error = failure;
+        failure = undefined;
+        return Promise.reject(error);
+      }
+
+      if (closed) {
+        return Promise.resolve({ value: undefined, done: true });
+      }
+
+      return new Promise((resolve, reject) => {
+        waiting = { resolve, reject };
+      });
+    },
+
+    // break в for await: новые события больше не принимаются
+    return: () => {
+      closed = true;
+      buffer.length = 0;
+      settle();
+      return Promise.resolve({ value: undefined, done: true });
+    },
+
+    [Symbol.asyncIterator]() {
+      return stream;
+    }
+  };
+
+  return stream;
+};
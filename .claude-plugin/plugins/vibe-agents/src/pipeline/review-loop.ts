@@ -0,0 +1,245 @@
+/**
+ * 🎭 Review Loop
+ * Critic verdict → revision of producing steps → re-review until the quality gate passes
+ */
+
+import { z } from 'zod';
+import { Either, left, right, isLeft } from 'fp-ts/lib/Either';
+import { stripCodeFences } from '../nlu/response-schemas';
+import { Tracer } from '../tracing/tracer';
+import {
+  IssueSeverity,
+  PlanStep,
+  ReviewIssue,
+  ReviewIteration,
+  ReviewOptions,
+  ReviewResult,
+  ReviewStopReason,
+  ReviewVerdict,
+  RevisionRequest,
+  StepResult
+} from './types';
+
+export const DEFAULT_MAX_REVIEW_ITERATIONS = 3;
+
+export const REVIEW_STAGE = 'review';
+
+export const ReviewVerdictSchema = z.object({
+  verdict: z.enum(['pass', 'fail']),
+  score: z.number().min(0).max(1).optional(),
+  issues: z.array(z.object({
+    severity: z.enum(['low', 'medium', 'high', 'critical']),
+    message: z.string().min(1),
+    stepId: z.string().optional(),
+    agentId: z.string().optional(),
+    location: z.string().optional(),
+    suggestion: z.string().optional()
+  })).default([]),
+  summary: z.string().optional()
+});
+
+// Вклад замечания в снижение оценки, если критик не прислал score сам
+const SEVERITY_PENALTY: Record<IssueSeverity, number> = {
+  low: 0.05,
+  medium: 0.1,
+  high: 0.25,
+  critical: 0.5
+};
+
+export const REVIEW_INSTRUCTIONS =
+  'Верни вердикт в JSON: {"verdict": "pass" | "fail", "score": 0..1, "issues": ' +
+  '[{"severity": "low" | "medium" | "high" | "critical", "message": "...", "stepId": "..."}]}';
+
+/**
+ * Вердикт из вывода критика: объект с полем verdict или JSON-строка.
+ * undefined — критик не проводил ревью (например, dry-run)
+ */
+export const readVerdict = (output: unknown): Either<Error, ReviewVerdict> | undefined => {
+  let candidate: unknown = output;
+
+  if (typeof output === 'string') {
+    try {
+      candidate = JSON.parse(stripCodeFences(output));
+    } catch {
+      return left(new Error('Critic verdict is not valid JSON'));
+    }
+  } else if (!output || typeof output !== 'object' || !('verdict' in output)) {
+    return undefined;
+  }
+
+  const parsed = ReviewVerdictSchema.safeParse(candidate);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    return left(new Error('Invalid critic verdict: ' + issues.join('; ')));
+  }
+
+  return right(parsed.data);
+};
+
+export const scoreVerdict = (verdict: ReviewVerdict): number => {
+  if (verdict.score !== undefined) {
+    return verdict.score;
+  }
+
+  const penalty = verdict.issues.reduce((sum, issue) => sum + SEVERITY_PENALTY[issue.severity], 0);
+  return Math.max(0, Math.round((1 - penalty) * 100) / 100);
+};
+
+/**
+ * Распределяет замечания по проверяемым шагам; замечание без адресата
+ * (или с неизвестным адресатом) получают все шаги
+ */
+export const assignIssues = (issues: ReviewIssue[], producers: PlanStep[]): Map<string, ReviewIssue[]> => {
+  const assigned = new Map<string, ReviewIssue[]>();
+
+  for (const issue of issues) {
+    const targets = producers.filter(p => p.id === issue.stepId || p.agentId === issue.agentId);
+
+    for (const producer of targets.length > 0 ? targets : producers) {
+      assigned.set(producer.id, [...(assigned.get(producer.id) ?? []), issue]);
+    }
+  }
+
+  return assigned;
+};
+
+export type StepRunner = (step: PlanStep, revision?: RevisionRequest) => Promise<StepResult>;
+
+export interface ReviewLoopContext {
+  step: PlanStep;
+  producers: PlanStep[];
+  // Текущие результаты проверяемых шагов
+  outputs: Record<string, any>;
+  execute: StepRunner;
+  tracer: Tracer;
+  options?: ReviewOptions;
+  onVerdict?: (iteration: ReviewIteration, stopReason?: ReviewStopReason) => void;
+}
+
+/**
+ * Ревью повторяется, пока критик не вернёт pass, не исчерпан лимит итераций
+ * и оценка растёт от итерации к итерации
+ */
+export const runReviewLoop = async (context: ReviewLoopContext): Promise<StepResult> => {
+  const { step, producers, execute, tracer } = context;
+  const maxIterations = Math.max(1, context.options?.maxIterations ?? DEFAULT_MAX_REVIEW_ITERATIONS);
+  const outputs = { ...context.outputs };
+  const iterations: ReviewIteration[] = [];
+  const span = tracer.startSpan('review', { 'step.id': step.id, 'agent.id': step.agentId });
+  let first: StepResult | undefined;
+
+  const finish = (result: StepResult, stopReason?: ReviewStopReason, error?: string): StepResult => {
+    if (!stopReason) {
+      span.end(result.error);
+      return result;
+    }
+
+    const review: ReviewResult = {
+      passed: stopReason === 'passed',
+      stopReason,
+      score: iterations[iterations.length - 1]?.score ?? 0,
+      iterations
+    };
+
+    span.setAttributes({
+      'review.passed': review.passed,
+      'review.stop_reason': stopReason,
+      'review.iterations': iterations.length,
+      'review.score': review.score
+    });
+    span.end(error);
+
+    return {
+      ...result,
+      status: review.passed ? 'completed' : 'failed',
+      error,
+      startedAt: first?.startedAt,
+      durationMs: iterations.reduce((sum, i) => sum + i.durationMs, 0),
+      review
+    };
+  };
+
+  return tracer.run(span, async () => {
+    for (let iteration = 1; ; iteration++) {
+      const startedAt = Date.now();
+      const result = await execute(step);
+      first = first ?? result;
+
+      if (result.status !== 'completed') {
+        return finish(result, iterations.length > 0 ? 'revision-failed' : undefined, result.error);
+      }
+
+      const verdict = readVerdict(result.output);
+
+      if (verdict === undefined) {
+        return iteration === 1
+          ? finish(result)
+          : finish(result, 'revision-failed', 'Critic returned no verdict');
+      }
+
+      if (isLeft(verdict)) {
+        return iterations.length > 0
+          ? finish(result, 'revision-failed', verdict.left.message)
+          : finish({ ...result, status: 'failed', error: verdict.left.message });
+      }
+
+      const current: ReviewIteration = {
+        iteration,
+        verdict: verdict.right.verdict,
+        score: scoreVerdict(verdict.right),
+        issues: verdict.right.issues,
+        summary: verdict.right.summary,
+        revisedSteps: [],
+        durationMs: 0
+      };
+      const previous = iterations[iterations.length - 1];
+      iterations.push(current);
+
+      const stopReason: ReviewStopReason | undefined =
+        current.verdict === 'pass' ? 'passed'
+        : iteration >= maxIterations ? 'max-iterations'
+        : previous && current.score <= previous.score ? 'no-improvement'
+        : undefined;
+
+      if (stopReason) {
+        current.durationMs = Date.now() - startedAt;
+        context.onVerdict?.({ ...current }, stopReason);
+        return finish(
+          result,
+          stopReason,
+          stopReason === 'passed'
+            ? undefined
+            : `Quality gate not passed (${stopReason}) after ${iteration} iteration(s), score ${current.score}`
+        );
+      }
+
+      // Вердикт до доработки: revisedSteps и durationMs итерации ещё не заполнены
+      context.onVerdict?.({ ...current });
+
+      // Проверяемые шаги дорабатываются параллельно, затем критик смотрит снова;
+      // fail без замечаний возвращает на доработку все шаги
+      const assigned = assignIssues(current.issues, producers);
+      const revised = await Promise.all(
+        producers
+          .filter(p => assigned.size === 0 || assigned.has(p.id))
+          .map(p => execute(p, { iteration, issues: assigned.get(p.id) ?? [], previousOutput: outputs[p.id] }))
+      );
+
+      current.revisedSteps = revised.map(r => r.stepId);
+      current.durationMs = Date.now() - startedAt;
+
+      const failed = revised.find(r => r.status !== 'completed');
+      if (failed) {
+        return finish(result, 'revision-failed', `Revision of step ${failed.stepId} failed: ${failed.error}`);
+      }
+
+      for (const r of revised) {
+        outputs[r.stepId] = r.output;
+      }
+    }
+  });
+};
+
+export const isReviewStep = (step: PlanStep): boolean => {
+  return (step.stage ?? step.id) === REVIEW_STAGE;
+};
@@ -0,0 +1,142 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isLeft, isRight } from 'fp-ts/lib/Either';
+import { left, right } from 'fp-ts/lib/TaskEither';
+import { AgentRoute } from '../nlu/types';
+import { createTracer } from '../tracing/tracer';
+import { runPlan, validatePlan } from './scheduler';
+import { AgentExecutor, ExecutionPlan } from './types';
+
+const route: AgentRoute = {
+  agentId: 'vibe-coder',
+  intent: 'create-component',
+  entities: [],
+  task: {},
+  confidence: 0.9,
+  originalText: 'создай компонент'
+};
+
+// lead → (coder, tester) → docs
+const plan: ExecutionPlan = {
+  name: 'test',
+  steps: [
+    { id: 'lead', agentId: 'vibe-lead' },
+    { id: 'coder', agentId: 'vibe-coder', dependsOn: ['lead'] },
+    { id: 'tester', agentId: 'vibe-tester', dependsOn: ['lead'] },
+    { id: 'docs', agentId: 'vibe-knowledge-keeper', dependsOn: ['coder', 'tester'] }
+  ]
+};
+
+const options = { tracer: createTracer(), review: false as const };
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('validatePlan', () => {
+  it('returns steps in dependency order', () => {
+    const order = validatePlan(plan);
+
+    assert.ok(isRight(order));
+    assert.deepEqual(order.right, ['lead', 'coder', 'tester', 'docs']);
+  });
+
+  it('rejects unknown dependencies, duplicates and cycles', () => {
+    const invalid: ExecutionPlan[] = [
+      { name: 'unknown', steps: [{ id: 'a', agentId: 'x', dependsOn: ['b'] }] },
+      { name: 'duplicate', steps: [{ id: 'a', agentId: 'x' }, { id: 'a', agentId: 'y' }] },
+      { name: 'cycle', steps: [{ id: 'a', agentId: 'x', dependsOn: ['b'] }, { id: 'b', agentId: 'y', dependsOn: ['a'] }] }
+    ];
+
+    const messages = invalid.map(p => validatePlan(p)).map(result => isLeft(result) ? result.left.message : '');
+
+    assert.match(messages[0], /unknown step: b/);
+    assert.match(messages[1], /Duplicate step id/);
+    assert.match(messages[2], /Cycle detected/);
+  });
+});
+
+describe('runPlan', () => {
+  it('passes upstream outputs and runs independent steps in parallel', async () => {
+    let active = 0;
+    let peak = 0;
+    const upstream: Record<string, string[]> = {};
+
+    const executor: AgentExecutor = request => async () => {
+      upstream[request.stepId] = Object.keys(request.upstream ?? {});
+      active++;
+      peak = Math.max(peak, active);
+      await delay(10);
+      active--;
+      return { _tag: 'Right', right: request.stepId + ' done' };
+    };
+
+    const result = await runPlan(plan, route, executor, options);
+
+    assert.ok(isRight(result));
+    assert.deepEqual(result.right.map(s => s.status), ['completed', 'completed', 'completed', 'completed']);
+    assert.deepEqual(upstream.docs, ['coder', 'tester']);
+    assert.equal(peak, 2);
+  });
+
+  it('respects the concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+    const executor: AgentExecutor = () => async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(5);
+      active--;
+      return { _tag: 'Right', right: null };
+    };
+
+    await runPlan(plan, route, executor, { ...options, concurrency: 1 });
+
+    assert.equal(peak, 1);
+  });
+
+  it('skips steps whose dependencies failed', async () => {
+    const executor: AgentExecutor = request =>
+      request.stepId === 'coder' ? left(new Error('compile error')) : right('ok');
+
+    const result = await runPlan(plan, route, executor, options);
+
+    assert.ok(isRight(result));
+    const status = Object.fromEntries(result.right.map(s => [s.stepId, s.status]));
+    assert.deepEqual(status, { lead: 'completed', coder: 'failed', tester: 'completed', docs: 'skipped' });
+    assert.equal(result.right.find(s => s.stepId === 'coder')?.error, 'compile error');
+  });
+
+  it('does not rerun completed steps on resume', async () => {
+    const executed: string[] = [];
+    const executor: AgentExecutor = request => {
+      executed.push(request.stepId);
+      return right('ok');
+    };
+
+    const result = await runPlan(plan, route, executor, {
+      ...options,
+      completed: [{ stepId: 'lead', agentId: 'vibe-lead', stage: 'lead', status: 'completed', dependsOn: [], output: 'saved', durationMs: 1 }]
+    });
+
+    assert.ok(isRight(result));
+    assert.deepEqual(executed.sort(), ['coder', 'docs', 'tester']);
+  });
+
+  it('cancels pending steps when the signal aborts', async () => {
+    const controller = new AbortController();
+    const executor: AgentExecutor = () => async () => {
+      controller.abort();
+      return { _tag: 'Right', right: 'ok' };
+    };
+
+    const result = await runPlan(plan, route, executor, { ...options, signal: controller.signal });
+
+    assert.ok(isRight(result));
+    assert.deepEqual(result.right.map(s => s.status), ['completed', 'cancelled', 'cancelled', 'cancelled']);
+  });
+
+  it('returns an error for an invalid plan', async () => {
+    const result = await runPlan({ name: 'bad', steps: [{ id: 'a', agentId: 'x', dependsOn: ['a'] }] }, route, () => right('ok'), options);
+
+    assert.ok(isLeft(result));
+  });
+});
@@ -0,0 +1,392 @@
+/**
+ * 🕸️ DAG Scheduler
+ * Dependency-aware execution of agent steps with bounded concurrency
+ */
+
+import { randomUUID } from 'node:crypto';
+import { TaskEither } from 'fp-ts/lib/TaskEither';
+import { Either, left, right, isLeft } from 'fp-ts/lib/Either';
+import { AgentCallRequest, createCallBus } from '../agents/call-bus';
+import { AgentRoute } from '../nlu/types';
+import { trackAgentStep } from '../nlu/agent-routing';
+import { Tracer, tracer as defaultTracer } from '../tracing/tracer';
+import { isReviewStep, runReviewLoop } from './review-loop';
+import {
+  AgentExecutor,
+  AgentStepRequest,
+  ExecutionPlan,
+  PlanStep,
+  RevisionRequest,
+  SchedulerOptions,
+  StepResult
+} from './types';
+
+const DEFAULT_CONCURRENCY = 4;
+const STEP_CANCELLED = 'Step cancelled';
+
+/**
+ * Проверяет план и возвращает топологический порядок шагов
+ */
+export const validatePlan = (plan: ExecutionPlan): Either<Error, string[]> => {
+  const ids = new Set<string>();
+
+  for (const step of plan.steps) {
+    if (ids.has(step.id)) {
+      return left(new Error(`Duplicate step id in plan ${plan.name}: ${step.id}`));
+    }
+    ids.add(step.id);
+  }
+
+  for (const step of plan.steps) {
+    for (const dep of step.dependsOn ?? []) {
+      if (!ids.has(dep)) {
+        return left(new Error(`Step ${step.id} depends on unknown step: ${dep}`));
+      }
+    }
+  }
+
+  // Алгоритм Кана: шаги, оставшиеся с входящими рёбрами, образуют цикл
+  const inDegree = new Map(plan.steps.map(s => [s.id, (s.dependsOn ?? []).length]));
+  const queue = plan.steps.filter(s => inDegree.get(s.id) === 0).map(s => s.id);
+  const order: string[] = [];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+
+    for (const step of plan.steps) {
+      if ((step.dependsOn ?? []).includes(id)) {
+        const degree = inDegree.get(step.id)! - 1;
+        inDegree.set(step.id, degree);
+        if (degree === 0) {
+          queue.push(step.id);
+        }
+      }
+    }
+  }
+
+  if (order.length !== plan.steps.length) {
+    const cyclic = plan.steps.filter(s => !order.includes(s.id)).map(s => s.id);
+    return left(new Error(`Cycle detected in plan ${plan.name}: ${cyclic.join(', ')}`));
+  }
+
+  return right(order);
+};
+
+export const runPlan = async (
+  plan: ExecutionPlan,
+  route: AgentRoute,
+  executor: AgentExecutor,
+  options: SchedulerOptions = {}
+): Promise<Either<Error, StepResult[]>> => {
+  const validated = validatePlan(plan);
+  if (isLeft(validated)) {
+    return validated;
+  }
+
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const tracer = options.tracer ?? defaultTracer;
+  const results = new Map<string, StepResult>();
+  const running = new Map<string, Promise<void>>();
+  const pending = new Set(validated.right);
+  const stepsById = new Map(plan.steps.map(s => [s.id, s]));
+
+  // Возобновление: завершённые ранее шаги берутся как есть
+  for (const result of options.completed ?? []) {
+    if (result.status === 'completed' && pending.has(result.stepId)) {
+      pending.delete(result.stepId);
+      results.set(result.stepId, result);
+    }
+  }
+
+  const upstreamOf = (step: PlanStep) => {
+    return Object.fromEntries((step.dependsOn ?? []).map(dep => [dep, results.get(dep)!.output]));
+  };
+
+  const taskId = options.taskId ?? randomUUID();
+  const bus = createCallBus({
+    ...options.calls,
+    tracer,
+    execute: request => executor(callStepRequest(request, route, options))
+  });
+
+  const execute = async (step: PlanStep, revision?: RevisionRequest) => {
+    options.onStepStarted?.(step, revision);
+    // Загрузка агента учитывается при выборе агентов (rankAgents, getBestAgent)
+    const finishStep = trackAgentStep(step.agentId);
+    const result = await traceStep(
+      tracer,
+      step,
+      () => runStep(executor, step, route, upstreamOf(step), {
+        revision,
+        callAgent: bus.callerFor(step.agentId, taskId),
+        signal: options.signal,
+        onChunk: chunkSink(options, step.id, step.agentId)
+      }),
+      revision
+    ).finally(finishStep);
+    options.onStepFinished?.(result);
+    return result;
+  };
+
+  while (pending.size > 0 || running.size > 0) {
+    for (const id of [...pending]) {
+      const step = stepsById.get(id)!;
+      const deps = step.dependsOn ?? [];
+
+      if (options.signal?.aborted) {
+        pending.delete(id);
+        results.set(id, traceSkipped(tracer, skipStep(step, 'cancelled')));
+        continue;
+      }
+
+      // Если хоть одна зависимость не выполнена, шаг пропускается
+      if (deps.some(dep => results.has(dep) && results.get(dep)!.status !== 'completed')) {
+        pending.delete(id);
+        results.set(id, traceSkipped(tracer, skipStep(step)));
+        continue;
+      }
+
+      const ready = deps.every(dep => results.get(dep)?.status === 'completed');
+      if (ready && running.size < concurrency) {
+        pending.delete(id);
+        const execution = isReviewStep(step) && options.review !== false
+          ? runReviewLoop({
+            step,
+            producers: deps.map(dep => stepsById.get(dep)!),
+            outputs: upstreamOf(step),
+            execute: async (target, revision) => {
+              const result = await execute(target, revision);
+              // Доработанные шаги заменяют прежние результаты
+              if (target.id !== step.id) {
+                results.set(target.id, result);
+              }
+              return result;
+            },
+            tracer,
+            options: options.review,
+            onVerdict: options.onVerdict && ((iteration, stopReason) => options.onVerdict!(step, iteration, stopReason))
+          })
+          : execute(step);
+
+        running.set(
+          id,
+          execution.then(result => {
+            results.set(id, result);
+            running.delete(id);
+          })
+        );
+      }
+    }
+
+    if (running.size > 0) {
+      await Promise.race(running.values());
+    }
+  }
+
+  return right(validated.right.map(id => results.get(id)!));
+};
+
+/**
+ * Спан шага агента; токены и модель берутся из вывода исполнителя, если он их сообщает
+ */
+const traceStep = async (
+  tracer: Tracer,
+  step: PlanStep,
+  execute: () => Promise<StepResult>,
+  revision?: RevisionRequest
+): Promise<StepResult> => {
+  const span = tracer.startSpan('agent.step', {
+    'step.id': step.id,
+    'agent.id': step.agentId,
+    'step.stage': step.stage ?? step.id,
+    'step.revision': revision?.iteration
+  });
+
+  const result = await tracer.run(span, execute);
+  const output = result.output;
+
+  span.setAttributes({
+    'step.status': result.status,
+    'llm.model': typeof output?.model === 'string' ? output.model : undefined,
+    'llm.tokens.input': output?.usage?.inputTokens,
+    'llm.tokens.output': output?.usage?.outputTokens
+  });
+  span.end(result.status === 'failed' ? result.error : undefined);
+
+  return result;
+};
+
+/**
+ * Спан шага, который не запускался: пропущен или отменён
+ */
+const traceSkipped = (tracer: Tracer, result: StepResult): StepResult => {
+  tracer
+    .startSpan('agent.step', {
+      'step.id': result.stepId,
+      'agent.id': result.agentId,
+      'step.stage': result.stage,
+      'step.status': result.status
+    })
+    .end();
+
+  return result;
+};
+
+const runStep = async (
+  executor: AgentExecutor,
+  step: PlanStep,
+  route: AgentRoute,
+  upstream: Record<string, any>,
+  extras: Pick<AgentStepRequest, 'revision' | 'callAgent' | 'signal' | 'onChunk'> = {}
+): Promise<StepResult> => {
+  const startedAt = new Date();
+  const request: AgentStepRequest = {
+    stepId: step.id,
+    agentId: step.agentId,
+    stage: step.stage ?? step.id,
+    instructions: step.instructions,
+    route: {
+      ...route,
+      agentId: step.agentId,
+      task: { ...route.task, upstream }
+    },
+    upstream,
+    ...extras
+  };
+
+  const base = {
+    stepId: step.id,
+    agentId: step.agentId,
+    stage: request.stage,
+    dependsOn: step.dependsOn ?? [],
+    startedAt: startedAt.toISOString()
+  };
+
+  try {
+    const result = await abortable(executor(request), request.signal)();
+
+    if (isLeft(result)) {
+      return {
+        ...base,
+        status: request.signal?.aborted ? 'cancelled' : 'failed',
+        error: result.left.message,
+        durationMs: Date.now() - startedAt.getTime()
+      };
+    }
+
+    return {
+      ...base,
+      status: 'completed',
+      output: result.right,
+      durationMs: Date.now() - startedAt.getTime()
+    };
+  } catch (error) {
+    return {
+      ...base,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      durationMs: Date.now() - startedAt.getTime()
+    };
+  }
+};
+
+/**
+ * Отмена не ждёт исполнителя: шаг завершается сразу, даже если агент не слушает signal
+ */
+const abortable = <A>(task: TaskEither<Error, A>, signal?: AbortSignal): TaskEither<Error, A> => {
+  if (!signal) {
+    return task;
+  }
+
+  return () => {
+    if (signal.aborted) {
+      return Promise.resolve(left(new Error(STEP_CANCELLED)));
+    }
+
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<Either<Error, A>>((resolve) => {
+      onAbort = () => resolve(left(new Error(STEP_CANCELLED)));
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    return Promise.race([task(), aborted]).finally(() => signal.removeEventListener('abort', onAbort!));
+  };
+};
+
+/**
+ * Фрагменты вывода помечаются шагом и агентом; без подписчика исполнитель не получает onChunk
+ */
+const chunkSink = (
+  options: Pick<SchedulerOptions, 'onChunk'>,
+  stepId: string,
+  agentId: string
+): AgentStepRequest['onChunk'] => {
+  const { onChunk } = options;
+  return onChunk && (text => onChunk({ stepId, agentId, text }));
+};
+
+/**
+ * Вызов между агентами выполняется тем же исполнителем, что и шаги плана
+ */
+const callStepRequest = (
+  request: AgentCallRequest,
+  route: AgentRoute,
+  options: Pick<SchedulerOptions, 'signal' | 'onChunk'>
+): AgentStepRequest => {
+  const { callAgent, ...incomingCall } = request;
+  const { call } = request;
+
+  return {
+    stepId: request.callId,
+    agentId: call.targetAgentId,
+    stage: 'call',
+    instructions: call.expectedOutput
+      ? `${call.task}\nОжидаемый результат: ${call.expectedOutput}`
+      : call.task,
+    route: { ...route, agentId: call.targetAgentId },
+    upstream: call.context.sharedState ?? {},
+    callAgent,
+    incomingCall,
+    signal: options.signal,
+    onChunk: chunkSink(options, request.callId, call.targetAgentId)
+  };
+};
+
+const skipStep = (step: PlanStep, status: 'skipped' | 'cancelled' = 'skipped'): StepResult => ({
+  stepId: step.id,
+  agentId: step.agentId,
+  stage: step.stage ?? step.id,
+  status,
+  ...(status === 'cancelled' ? { error: STEP_CANCELLED } : {}),
+  dependsOn: step.dependsOn ?? [],
+  durationMs: 0
+});
+
+/**
+ * Удаляет шаги из плана; зависимые шаги наследуют зависимости удалённых,
+ * поэтому порядок остальных шагов сохраняется
+ */
+export const withoutSteps = (plan: ExecutionPlan, stepIds: string[]): ExecutionPlan => {
+  const removed = new Map(
+    plan.steps.filter(s => stepIds.includes(s.id)).map(s => [s.id, s.dependsOn ?? []])
+  );
+
+  const resolve = (dep: string, seen: Set<string> = new Set()): string[] => {
+    if (!removed.has(dep) || seen.has(dep)) {
+      return removed.has(dep) ? [] : [dep];
+    }
+    seen.add(dep);
+    return removed.get(dep)!.flatMap(d => resolve(d, seen));
+  };
+
+  return {
+    name: plan.name,
+    steps: plan.steps
+      .filter(s => !removed.has(s.id))
+      .map(s => ({
+        ...s,
+        dependsOn: [...new Set((s.dependsOn ?? []).flatMap(dep => resolve(dep)))]
+      }))
+  };
+};
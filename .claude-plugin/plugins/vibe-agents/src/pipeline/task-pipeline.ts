@@ -0,0 +1,339 @@
+/**
+ * 🐝 Task Pipeline
+ * NLU → lead → spec → tasker → [typescript, tester, security, coder] → critic → knowledge-keeper
+ */
+
+import { randomUUID } from 'node:crypto';
+import { right } from 'fp-ts/lib/TaskEither';
+import { isLeft, right as rightE } from 'fp-ts/lib/Either';
+import { runPlan } from './scheduler';
+import { REVIEW_INSTRUCTIONS } from './review-loop';
+import { recordAgentOutcome } from '../nlu/agent-routing';
+import { durationHistory } from '../arbitration/duration-history';
+import { formatNLUError } from '../nlu/errors';
+import { Tracer, tracer as defaultTracer } from '../tracing/tracer';
+import { detectLocale } from '../nlu/locales';
+import { AgentRoute, NLUError } from '../nlu/types';
+import {
+  AgentExecutor,
+  AgentStepRequest,
+  ExecutionPlan,
+  PlanStep,
+  StepResult,
+  TaskExecutionResult,
+  TaskPipelineOptions,
+  TaskProgressEvent
+} from './types';
+
+// Событие без taskId и времени: их добавляет emitter задачи
+type ProgressPayload<E = TaskProgressEvent> = E extends TaskProgressEvent ? Omit<E, 'taskId' | 'at'> : never;
+
+export const DEFAULT_PLAN: ExecutionPlan = {
+  name: 'task',
+  steps: [
+    { id: 'lead', agentId: 'vibe-lead', stage: 'analysis' },
+    { id: 'spec', agentId: 'vibe-spec', stage: 'specification', dependsOn: ['lead'] },
+    { id: 'tasker', agentId: 'vibe-tasker', stage: 'planning', dependsOn: ['spec'] },
+    { id: 'typescript', agentId: 'vibe-typescript', stage: 'implementation', dependsOn: ['spec', 'tasker'] },
+    { id: 'tester', agentId: 'vibe-tester', stage: 'implementation', dependsOn: ['spec', 'tasker'] },
+    { id: 'security', agentId: 'vibe-security', stage: 'implementation', dependsOn: ['spec', 'tasker'] },
+    { id: 'coder', agentId: 'vibe-coder', stage: 'implementation', dependsOn: ['spec', 'tasker'] },
+    {
+      id: 'critic',
+      agentId: 'vibe-critic',
+      stage: 'review',
+      dependsOn: ['typescript', 'tester', 'security', 'coder'],
+      instructions: REVIEW_INSTRUCTIONS
+    },
+    { id: 'knowledge-keeper', agentId: 'vibe-knowledge-keeper', stage: 'documentation', dependsOn: ['critic'] }
+  ]
+};
+
+/**
+ * План по умолчанию для маршрута: агент основного намерения и агенты дополнительных,
+ * которых нет в плане, работают вместе с исполнителями и проверяются критиком
+ */
+export const defaultPlanFor = (route: AgentRoute): ExecutionPlan => {
+  const present = new Set(DEFAULT_PLAN.steps.map(s => s.agentId));
+  const ids = new Set(DEFAULT_PLAN.steps.map(s => s.id));
+  const routed = [route.agentId, ...(route.additionalRoutes ?? []).map(r => r.agentId)];
+  const extra: PlanStep[] = [...new Set(routed)]
+    .filter(agentId => !present.has(agentId))
+    .map(agentId => {
+      // Идентификатор шага — как у остальных: имя агента без префикса vibe-
+      const id = agentId.replace(/^vibe-/, '');
+      return { id: ids.has(id) ? agentId : id, agentId, stage: 'implementation', dependsOn: ['spec', 'tasker'] };
+    });
+
+  if (extra.length === 0) {
+    return DEFAULT_PLAN;
+  }
+
+  const steps = DEFAULT_PLAN.steps.map(s =>
+    s.id === 'critic' ? { ...s, dependsOn: [...(s.dependsOn ?? []), ...extra.map(e => e.id)] } : s
+  );
+  const critic = steps.findIndex(s => s.id === 'critic');
+
+  return { name: DEFAULT_PLAN.name, steps: [...steps.slice(0, critic), ...extra, ...steps.slice(critic)] };
+};
+
+/**
+ * Вся задача — корневой спан trace: внутри спаны NLU и шагов агентов
+ */
+export const runTaskPipeline = async (
+  task: string,
+  options: TaskPipelineOptions
+): Promise<TaskExecutionResult> => {
+  const tracer = options.tracer ?? defaultTracer;
+  const taskId = options.taskId ?? randomUUID();
+  const span = tracer.startSpan('task', { 'task.id': taskId, 'task.text': task });
+  const emit = progressEmitter(options.onEvent, taskId);
+  const result = await tracer.run(span, () => executePipeline(task, { ...options, taskId }, tracer, emit));
+
+  span.setAttributes({
+    'task.plan': result.plan,
+    'task.status': result.status,
+    'task.steps': result.steps.length,
+    'agent.id': result.route?.agentId,
+    'nlu.intent': result.route?.intent,
+    'nlu.confidence': result.route?.confidence
+  });
+  span.end(result.error);
+
+  const finished = { ...result, taskId, traceId: span.span.traceId };
+  emit({ type: 'task.finished', result: finished });
+  return finished;
+};
+
+const progressEmitter = (onEvent: TaskPipelineOptions['onEvent'], taskId: string) => {
+  return (payload: ProgressPayload) => {
+    onEvent?.({ ...payload, taskId, at: new Date().toISOString() } as TaskProgressEvent);
+  };
+};
+
+const executePipeline = async (
+  task: string,
+  options: TaskPipelineOptions,
+  tracer: Tracer,
+  emit: (payload: ProgressPayload) => void
+): Promise<TaskExecutionResult> => {
+  const startedAt = new Date();
+  const finish = (result: Omit<TaskExecutionResult, 'task' | 'startedAt' | 'durationMs'>): TaskExecutionResult => ({
+    ...result,
+    task,
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime()
+  });
+
+  // Отмена задачи доходит до запросов NLU к LLM
+  const context = options.signal ? { ...options.context, signal: options.signal } : options.context;
+  const routed = options.route
+    ? rightE<NLUError, AgentRoute>(options.route)
+    : await options.nlu.processNaturalLanguage(task, context)();
+
+  if (isLeft(routed)) {
+    return finish({
+      success: false,
+      status: routed.left.kind === 'cancelled' ? 'cancelled' : 'failed',
+      plan: planName(options.plan),
+      steps: [],
+      error: routed.left.message,
+      errorKind: routed.left.kind,
+      userMessage: formatNLUError(routed.left, detectLocale(task))
+    });
+  }
+
+  const route = routed.right;
+  options.onRoute?.(route);
+  const plan = typeof options.plan === 'function'
+    ? options.plan(route)
+    : options.plan ?? defaultPlanFor(route);
+
+  // NLU отдаёт разбор вместе с маршрутом; возобновлённая задача NLU не проходит
+  if (!options.route) {
+    emit({
+      type: 'nlu.parsed',
+      intent: route.intent,
+      confidence: route.confidence,
+      entities: route.entities,
+      ...(route.source ? { source: route.source } : {})
+    });
+  }
+  emit({
+    type: 'route.chosen',
+    route,
+    plan: plan.name,
+    steps: plan.steps,
+    restored: (options.completed ?? []).map(s => s.stepId)
+  });
+
+  // Без подписчика на события исполнитель не получает onChunk, а ревью — onVerdict
+  const streaming = options.onEvent !== undefined;
+  // Пробный шаг только готовит задание: для планировщика он выполнен, для результата — planned
+  const dryRun = isDryRunExecutor(options.executor);
+  const settle = (result: StepResult): StepResult => {
+    return dryRun && result.status === 'completed' ? { ...result, status: 'planned' } : result;
+  };
+
+  const executed = await runPlan(plan, route, options.executor, {
+    concurrency: options.concurrency,
+    tracer,
+    review: options.review,
+    taskId: options.taskId,
+    calls: options.calls,
+    signal: options.signal,
+    completed: options.completed,
+    onStepStarted: (step, revision) => {
+      options.onStepStarted?.(step, revision);
+      emit({
+        type: 'step.started',
+        stepId: step.id,
+        agentId: step.agentId,
+        stage: step.stage ?? step.id,
+        ...(revision ? { revision: revision.iteration } : {})
+      });
+    },
+    onStepFinished: (finished) => {
+      const result = settle(finished);
+      options.onStepFinished?.(result);
+      emit({ type: 'step.finished', result });
+    },
+    onChunk: streaming ? chunk => emit({ type: 'agent.chunk', ...chunk }) : undefined,
+    onVerdict: streaming
+      ? (step, iteration, stopReason) => emit({
+        type: 'critic.verdict',
+        stepId: step.id,
+        agentId: step.agentId,
+        iteration,
+        ...(stopReason ? { stopReason } : {})
+      })
+      : undefined
+  });
+
+  if (isLeft(executed)) {
+    return finish({
+      success: false,
+      status: 'failed',
+      plan: plan.name,
+      route,
+      steps: [],
+      error: executed.left.message
+    });
+  }
+
+  const steps = executed.right.map(settle);
+  const restored = new Set((options.completed ?? []).map(s => s.stepId));
+  const measured = steps.filter(s => !restored.has(s.stepId));
+
+  // История успехов учитывается при выборе агентов (rankAgents),
+  // длительности — при оценке времени в арбитрации.
+  // Шаги прошлого запуска уже учтены, отменённые и пробные (planned) ничего не говорят об агенте
+  for (const step of measured) {
+    if (step.status === 'completed' || step.status === 'failed') {
+      recordAgentOutcome(step.agentId, step.status === 'completed');
+    }
+    if (step.status === 'completed') {
+      durationHistory.record(step.agentId, step.durationMs);
+    }
+  }
+  // Короткоживущий процесс (CLI run) может завершиться раньше отложенной записи
+  if (measured.some(s => s.status === 'completed')) {
+    await durationHistory.flush();
+  }
+
+  const failed = steps.find(s => s.status === 'failed');
+  const cancelled = steps.some(s => s.status === 'cancelled');
+  const error = failed
+    ? `Step ${failed.stepId} (${failed.agentId}) failed: ${failed.error}`
+    : cancelled ? 'Task cancelled' : undefined;
+
+  return finish({
+    success: !failed && !cancelled && !dryRun,
+    status: failed ? 'failed' : cancelled ? 'cancelled' : dryRun ? 'dry-run' : 'completed',
+    plan: plan.name,
+    route,
+    steps,
+    error,
+    review: steps.find(s => s.review)?.review
+  });
+};
+
+const planName = (plan: TaskPipelineOptions['plan']): string => {
+  return plan && typeof plan !== 'function' ? plan.name : DEFAULT_PLAN.name;
+};
+
+const DRY_RUN_EXECUTORS = new WeakSet<AgentExecutor>();
+
+export const isDryRunExecutor = (executor: AgentExecutor): boolean => {
+  return DRY_RUN_EXECUTORS.has(executor);
+};
+
+/**
+ * Исполнитель по умолчанию: субагенты не запускаются,
+ * для каждого шага возвращается подготовленное задание
+ */
+export const createDryRunExecutor = (): AgentExecutor => {
+  const executor: AgentExecutor = (request: AgentStepRequest) => () => {
+    const prompt = buildAgentPrompt(request);
+    // Подготовленное задание — единственный вывод агента в пробном запуске
+    request.onChunk?.(prompt);
+
+    return right({
+      agentId: request.agentId,
+      stage: request.stage,
+      status: 'planned',
+      prompt
+    })();
+  };
+
+  DRY_RUN_EXECUTORS.add(executor);
+  return executor;
+};
+
+export const buildAgentPrompt = (request: AgentStepRequest): string => {
+  const { route } = request;
+  const lines = [
+    `Задача: ${route.originalText}`,
+    `Намерение: ${route.intent}`,
+    `Этап: ${request.stage}`
+  ];
+
+  if (route.task?.framework) {
+    lines.push(`Фреймворк: ${route.task.framework}`);
+  }
+
+  if (route.task?.language) {
+    lines.push(`Язык: ${route.task.language}`);
+  }
+
+  if (route.additionalRoutes?.length) {
+    lines.push(`Также в запросе: ${route.additionalRoutes.map(r => `${r.intent} → ${r.agentId}`).join(', ')}`);
+  }
+
+  if (request.incomingCall) {
+    const { call, depth } = request.incomingCall;
+    lines.push(`Вызов от: ${call.context.sourceAgentId} (приоритет ${call.context.priority}, глубина ${depth})`);
+  }
+
+  if (request.instructions) {
+    lines.push(`Инструкции: ${request.instructions}`);
+  }
+
+  if (request.revision) {
+    lines.push(`Доработка по замечаниям критика (итерация ${request.revision.iteration}):`);
+    for (const issue of request.revision.issues) {
+      lines.push(`- [${issue.severity}] ${issue.message}${issue.suggestion ? ` → ${issue.suggestion}` : ''}`);
+    }
+  }
+
+  const upstream = Object.keys(request.upstream);
+  if (upstream.length > 0) {
+    lines.push(`Результаты предыдущих шагов: ${upstream.join(', ')}`);
+  }
+
+  return lines.join('\n');
+};
+
+export const getStepResult = (steps: StepResult[], stepId: string): StepResult | undefined => {
+  return steps.find(s => s.stepId === stepId);
+};
@@ -0,0 +1,187 @@
+/**
+ * 🐝 Task Pipeline Type Definitions
+ */
+
+import { TaskEither } from 'fp-ts/lib/TaskEither';
+import { AgentRoute, Entity, NLUContext, NLUErrorKind, NLUService, NLUSource } from '../nlu/types';
+import { Tracer } from '../tracing/tracer';
+import { AgentCallRequest, CallAgent, CallBusOptions } from '../agents/call-bus';
+
+// planned — шаг пробного запуска: задание подготовлено, агент не запускался
+export type StepStatus = 'completed' | 'planned' | 'failed' | 'skipped' | 'cancelled';
+
+export interface PlanStep {
+  id: string;
+  agentId: string;
+  stage?: string;
+  dependsOn?: string[];
+  instructions?: string;
+}
+
+export interface ExecutionPlan {
+  name: string;
+  steps: PlanStep[];
+}
+
+export type PlanFactory = (route: AgentRoute) => ExecutionPlan;
+
+export interface AgentStepRequest {
+  stepId: string;
+  agentId: string;
+  stage: string;
+  instructions?: string;
+  route: AgentRoute;
+  upstream: Record<string, any>;
+  // Заполняется, когда критик вернул шаг на доработку
+  revision?: RevisionRequest;
+  // Вызов другого агента через шину с проверкой AGENT_CALL_MATRIX
+  callAgent?: CallAgent;
+  // Заполняется, когда шаг — вызов от другого агента (stage 'call')
+  incomingCall?: Omit<AgentCallRequest, 'callAgent'>;
+  // Отмена задачи: исполнитель должен прервать запрос к агенту
+  signal?: AbortSignal;
+  // Потоковый вывод агента: исполнитель передаёт фрагменты по мере получения
+  onChunk?: (text: string) => void;
+}
+
+export type AgentExecutor = (request: AgentStepRequest) => TaskEither<Error, any>;
+
+export interface StepResult {
+  stepId: string;
+  agentId: string;
+  stage: string;
+  status: StepStatus;
+  dependsOn: string[];
+  output?: any;
+  error?: string;
+  startedAt?: string;
+  durationMs: number;
+  review?: ReviewResult;
+}
+
+export type IssueSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface ReviewIssue {
+  severity: IssueSeverity;
+  message: string;
+  // Шаг или агент, которому адресовано замечание; без них — всем проверяемым шагам
+  stepId?: string;
+  agentId?: string;
+  location?: string;
+  suggestion?: string;
+}
+
+export interface ReviewVerdict {
+  verdict: 'pass' | 'fail';
+  score?: number;
+  issues: ReviewIssue[];
+  summary?: string;
+}
+
+export interface RevisionRequest {
+  iteration: number;
+  issues: ReviewIssue[];
+  previousOutput?: any;
+}
+
+export interface ReviewIteration {
+  iteration: number;
+  verdict: 'pass' | 'fail';
+  score: number;
+  issues: ReviewIssue[];
+  summary?: string;
+  // Шаги, отправленные на доработку после этой итерации
+  revisedSteps: string[];
+  durationMs: number;
+}
+
+export type ReviewStopReason = 'passed' | 'max-iterations' | 'no-improvement' | 'revision-failed';
+
+export interface ReviewResult {
+  passed: boolean;
+  stopReason: ReviewStopReason;
+  score: number;
+  iterations: ReviewIteration[];
+}
+
+export interface ReviewOptions {
+  maxIterations?: number;
+}
+
+export interface SchedulerOptions {
+  concurrency?: number;
+  tracer?: Tracer;
+  // false отключает цикл ревью: вывод критика не разбирается
+  review?: ReviewOptions | false;
+  // Идентификатор задачи для вызовов между агентами
+  taskId?: string;
+  calls?: Pick<CallBusOptions, 'registry' | 'matrix' | 'maxDepth'>;
+  // После отмены новые шаги не запускаются, текущие получают статус cancelled
+  signal?: AbortSignal;
+  // Шаги, завершённые до перезапуска процесса: повторно не выполняются
+  completed?: StepResult[];
+  onStepStarted?: (step: PlanStep, revision?: RevisionRequest) => void;
+  onStepFinished?: (result: StepResult) => void;
+  onChunk?: (chunk: AgentChunk) => void;
+  // Вердикт критика; stopReason не задан, если шаги уходят на доработку
+  onVerdict?: (step: PlanStep, iteration: ReviewIteration, stopReason?: ReviewStopReason) => void;
+}
+
+export interface AgentChunk {
+  stepId: string;
+  agentId: string;
+  text: string;
+}
+
+export interface TaskExecutionResult {
+  success: boolean;
+  task: string;
+  taskId?: string;
+  status: 'completed' | 'dry-run' | 'failed' | 'cancelled';
+  plan: string;
+  route?: AgentRoute;
+  steps: StepResult[];
+  error?: string;
+  errorKind?: NLUErrorKind;
+  // Текст ошибки для пользователя /task на языке запроса
+  userMessage?: string;
+  traceId?: string;
+  review?: ReviewResult;
+  startedAt: string;
+  durationMs: number;
+}
+
+export interface TaskPipelineOptions extends SchedulerOptions {
+  nlu: NLUService;
+  executor: AgentExecutor;
+  plan?: ExecutionPlan | PlanFactory;
+  context?: NLUContext;
+  // Маршрут уже известен (возобновление задачи): NLU не вызывается
+  route?: AgentRoute;
+  onRoute?: (route: AgentRoute) => void;
+  onEvent?: (event: TaskProgressEvent) => void;
+}
+
+// Параметры одного запуска /task: идентификатор, отмена, возобновление и прогресс
+export type TaskRunOptions = Pick<
+  TaskPipelineOptions,
+  'taskId' | 'signal' | 'route' | 'plan' | 'completed' | 'onRoute' | 'onStepStarted' | 'onStepFinished' | 'onEvent'
+>;
+
+interface ProgressEventBase {
+  taskId: string;
+  at: string;
+}
+
+// События выполнения /task в порядке появления: для живого прогресса в терминале или чате
+export type TaskProgressEvent = ProgressEventBase & (
+  | { type: 'nlu.parsed'; intent: string; confidence: number; entities: Entity[]; source?: NLUSource }
+  | { type: 'route.chosen'; route: AgentRoute; plan: string; steps: PlanStep[]; restored: string[] }
+  | { type: 'step.started'; stepId: string; agentId: string; stage: string; revision?: number }
+  | { type: 'step.finished'; result: StepResult }
+  | { type: 'agent.chunk'; stepId: string; agentId: string; text: string }
+  | { type: 'critic.verdict'; stepId: string; agentId: string; iteration: ReviewIteration; stopReason?: ReviewStopReason }
+  | { type: 'task.finished'; result: TaskExecutionResult }
+);
+
+export type TaskProgressEventType = TaskProgressEvent['type'];
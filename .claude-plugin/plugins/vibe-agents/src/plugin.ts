@@ -1,34 +1,373 @@
-import { z } from 'zod';
-
-// Zod схемы для валидации
-export const AgentSchema = z.object({
-  id: z.string(),
-  name: z.string(),
-  description: z.string(),
-  competencies: z.array(z.string()),
-  model: z.enum(['inherit', 'sonnet', 'opus', 'haiku']),
-  proactively: z.boolean().default(true)
-});
+import { randomUUID } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import { TaskEither, chain, chainW, map } from 'fp-ts/lib/TaskEither';
+import { pipe } from 'fp-ts/lib/function';
+import { Either, isLeft, isRight, right } from 'fp-ts/lib/Either';
+import { agentRegistry, AgentRegistry, setupProjectAgents } from './agents/agent-registry';
+import { AgentDefinition } from './agents/agent-schema';
+import { nluService } from './nlu/nlu-service';
+import { detectProjectContext } from './nlu/project-scanner';
+import { AgentRoute, NLUContext, NLUService } from './nlu/types';
+import { createDryRunExecutor, DEFAULT_PLAN, runTaskPipeline } from './pipeline/task-pipeline';
+import { createProgressStream } from './pipeline/progress-stream';
+import { ProjectConfig, saveProjectConfig, setupProjectConfig } from './config/project-config';
+import { Tracer, tracer as defaultTracer } from './tracing/tracer';
+import { createArbiter } from './arbitration/arbiter';
+import { toExecutionPlan } from './arbitration/strategy';
+import { Arbiter, ArbitrationPriority, ArbitrationResult } from './arbitration/types';
+import { createTaskManager } from './tasks/task-manager';
+import { TaskManager, TaskRecord } from './tasks/types';
+import {
+  AgentExecutor,
+  ExecutionPlan,
+  PlanFactory,
+  ReviewOptions,
+  TaskExecutionResult,
+  TaskProgressEvent,
+  TaskRunOptions
+} from './pipeline/types';
+
+export { AgentSchema } from './agents/agent-schema';
+
+export interface VibeAgentsPluginOptions {
+  nlu?: NLUService;
+  executor?: AgentExecutor;
+  plan?: ExecutionPlan | PlanFactory;
+  concurrency?: number;
+  registry?: AgentRegistry;
+  projectDir?: string | false;
+  tracer?: Tracer;
+  review?: ReviewOptions | false;
+  arbiter?: Arbiter;
+  // Хранилище состояния задач submitTask; по умолчанию ~/.vibe-agents/tasks
+  tasksDir?: string;
+  taskConcurrency?: number;
+}
+
+export interface ArbitrateOptions {
+  priority?: ArbitrationPriority;
+  deadline?: Date;
+  taskId?: string;
+  context?: NLUContext;
+}
+
+// Задача, выполняемая через арбитра: вытеснение прерывает её запуск
+interface Allocation {
+  controller?: AbortController;
+  preempted: boolean;
+  // Вызывается, когда арбитр запускает задачу из очереди
+  promote?: () => void;
+}
 
 export class VibeAgentsPlugin {
-  async executeTask(task: string): Promise<{ success: boolean; result: any }> {
-    // TODO: Реализовать выполнение задачи через систему из 21 агента
-    // Сейчас возвращаем успех для демонстрации
-    return {
-      success: true,
-      result: {
+  private readonly nlu: NLUService;
+  private readonly executor: AgentExecutor;
+  private readonly plan?: ExecutionPlan | PlanFactory;
+  private readonly concurrency?: number;
+  private readonly registry: AgentRegistry;
+  private readonly projectDir?: string | false;
+  readonly tracer: Tracer;
+  private readonly review?: ReviewOptions | false;
+  readonly arbiter: Arbiter;
+  readonly tasks: TaskManager;
+  private projectConfig?: Promise<Either<Error, ProjectConfig | null>>;
+  // События всех задач плагина, включая поставленные через submitTask
+  private readonly progress = new EventEmitter();
+  private readonly allocations = new Map<string, Allocation>();
+
+  constructor(options: VibeAgentsPluginOptions = {}) {
+    this.nlu = options.nlu ?? nluService;
+    this.executor = options.executor ?? createDryRunExecutor();
+    this.plan = options.plan;
+    this.concurrency = options.concurrency;
+    this.registry = options.registry ?? agentRegistry;
+    this.projectDir = options.projectDir;
+    this.tracer = options.tracer ?? defaultTracer;
+    this.review = options.review;
+    // Вытеснение прерывает задачи runArbitrated только у арбитра, созданного плагином
+    this.arbiter = options.arbiter ?? createArbiter({
+      registry: this.registry,
+      tracer: this.tracer,
+      onPreempt: (taskId) => this.preempt(taskId)
+    });
+    this.tasks = createTaskManager({
+      dir: options.tasksDir,
+      concurrency: options.taskConcurrency,
+      run: ({ task, context, ...run }) => this.executeTask(task, context, run)
+    });
+  }
+
+  async executeTask(task: string, context?: NLUContext, run: TaskRunOptions = {}): Promise<TaskExecutionResult> {
+    const taskId = run.taskId ?? randomUUID();
+    const onEvent = (event: TaskProgressEvent) => {
+      run.onEvent?.(event);
+      this.progress.emit('event', event);
+    };
+    const config = await this.loadProjectConfig()();
+
+    if (isLeft(config)) {
+      const result: TaskExecutionResult = {
+        success: false,
         task,
-        agents: ['vibe-queen', 'vibe-lead', 'vibe-coder', 'vibe-tester'],
-        status: 'completed',
-        message: 'Задача выполнена системой из 21 агента'
+        taskId,
+        status: 'failed',
+        plan: this.plan && typeof this.plan !== 'function' ? this.plan.name : DEFAULT_PLAN.name,
+        steps: [],
+        error: config.left.message,
+        startedAt: new Date().toISOString(),
+        durationMs: 0
+      };
+      onEvent({ type: 'task.finished', taskId, at: new Date().toISOString(), result });
+      return result;
+    }
+
+    const result = await runTaskPipeline(task, {
+      nlu: this.nlu,
+      executor: this.executor,
+      plan: this.plan,
+      concurrency: this.concurrency,
+      tracer: this.tracer,
+      review: this.review,
+      calls: { registry: this.registry },
+      context: await this.resolveContext(context),
+      ...run,
+      taskId,
+      onEvent
+    });
+
+    // Задача, распределённая через arbitrate, освобождает агентов по завершении
+    if (!this.allocations.has(taskId)) {
+      this.release(taskId);
+    }
+
+    return result;
+  }
+
+  /**
+   * Выполняет задачу и отдаёт события по мере выполнения: разбор NLU, маршрут,
+   * шаги, фрагменты вывода агентов, вердикты критика; последнее — task.finished.
+   * Выход из for await не останавливает задачу: для отмены передайте run.signal
+   */
+  streamTask(task: string, context?: NLUContext, run: TaskRunOptions = {}): AsyncIterableIterator<TaskProgressEvent> {
+    const stream = createProgressStream<TaskProgressEvent>();
+
+    this.executeTask(task, context, {
+      ...run,
+      onEvent: (event) => {
+        run.onEvent?.(event);
+        stream.push(event);
+      }
+    }).then(
+      () => stream.end(),
+      (error) => stream.fail(error instanceof Error ? error : new Error(String(error)))
+    );
+
+    return stream;
+  }
+
+  /**
+   * Подписка на события всех задач плагина; возвращает функцию отписки
+   */
+  onProgress(listener: (event: TaskProgressEvent) => void): () => void {
+    this.progress.on('event', listener);
+    return () => {
+      this.progress.off('event', listener);
+    };
+  }
+
+  /**
+   * Ставит задачу в очередь с сохранением состояния: статус, прогресс шагов,
+   * отмена через tasks.cancel и возобновление через tasks.resume
+   */
+  submitTask(task: string, context?: NLUContext): TaskEither<Error, TaskRecord> {
+    return this.tasks.submit(task, { context });
+  }
+
+  /**
+   * Разбирает запрос и передаёт его арбитру: агенты, стратегия, оценка времени
+   * и место в очереди. Агентов задачи освобождает arbiter.release(taskId)
+   */
+  arbitrate(task: string, options: ArbitrateOptions = {}): TaskEither<Error, ArbitrationResult> {
+    return pipe(
+      this.nlu.parseText(task, options.context),
+      chainW(parsing =>
+        this.arbiter.arbitrate({
+          parsing,
+          priority: options.priority ?? 'medium',
+          deadline: options.deadline,
+          taskId: options.taskId
+        })
+      )
+    );
+  }
+
+  /**
+   * Выполняет задачу через арбитра: агенты и план из арбитрации, ожидание в очереди,
+   * пока агенты заняты, и освобождение агентов по завершении. Вытесненная задача
+   * возвращается в очередь и продолжается с последнего завершённого шага
+   */
+  runArbitrated(task: string, options: ArbitrateOptions = {}, run: TaskRunOptions = {}): TaskEither<Error, TaskExecutionResult> {
+    return pipe(
+      this.nlu.parseText(task, options.context),
+      chainW(parsing =>
+        pipe(
+          this.arbiter.arbitrate({
+            parsing,
+            priority: options.priority ?? 'medium',
+            deadline: options.deadline,
+            taskId: options.taskId ?? run.taskId
+          }),
+          chainW(arbitration =>
+            pipe(
+              this.nlu.routeToAgent(parsing.intent, parsing.entities),
+              map((route): [ArbitrationResult, AgentRoute] => [
+                arbitration,
+                { ...route, originalText: parsing.originalText, source: parsing.source }
+              ])
+            )
+          )
+        )
+      ),
+      chainW(([arbitration, route]) => async () =>
+        right(await this.executeAllocated(task, arbitration, route, options.context, run))
+      )
+    );
+  }
+
+  private async executeAllocated(
+    task: string,
+    arbitration: ArbitrationResult,
+    route: AgentRoute,
+    context: NLUContext | undefined,
+    run: TaskRunOptions
+  ): Promise<TaskExecutionResult> {
+    const { taskId } = arbitration;
+    const allocation: Allocation = { preempted: false };
+    let completed = run.completed ?? [];
+    this.allocations.set(taskId, allocation);
+
+    try {
+      for (;;) {
+        if (this.arbiter.tasks('queued').some(t => t.taskId === taskId)) {
+          await this.waitForPromotion(allocation, run.signal);
+        }
+
+        // Отмена пользователем и вытеснение останавливают запуск одинаково
+        const controller = new AbortController();
+        const onAbort = () => controller.abort();
+        run.signal?.addEventListener('abort', onAbort, { once: true });
+        if (run.signal?.aborted) {
+          controller.abort();
+        }
+
+        allocation.controller = controller;
+        allocation.preempted = false;
+
+        const result = await this.executeTask(task, context, {
+          ...run,
+          taskId,
+          route,
+          plan: toExecutionPlan(arbitration),
+          completed,
+          signal: controller.signal
+        }).finally(() => run.signal?.removeEventListener('abort', onAbort));
+
+        allocation.controller = undefined;
+
+        if (!allocation.preempted || run.signal?.aborted) {
+          return result;
+        }
+
+        completed = result.steps.filter(step => step.status === 'completed');
       }
+    } finally {
+      this.allocations.delete(taskId);
+      this.release(taskId);
+    }
+  }
+
+  private waitForPromotion(allocation: Allocation, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        allocation.promote = undefined;
+        signal?.removeEventListener('abort', done);
+        resolve();
+      };
+
+      allocation.promote = done;
+      signal?.addEventListener('abort', done, { once: true });
+      if (signal?.aborted) {
+        done();
+      }
+    });
+  }
+
+  private preempt(taskId: string) {
+    const allocation = this.allocations.get(taskId);
+    if (allocation?.controller) {
+      allocation.preempted = true;
+      allocation.controller.abort();
+    }
+  }
+
+  /**
+   * Освобождает агентов задачи; задачи из очереди, которых арбитр запустил, продолжают работу
+   */
+  private release(taskId: string) {
+    for (const promoted of this.arbiter.release(taskId)) {
+      this.allocations.get(promoted)?.promote?.();
+    }
+  }
+
+  /**
+   * Дополняет контекст данными о проекте из рабочей директории,
+   * если projectContext не передан явно
+   */
+  private async resolveContext(context?: NLUContext): Promise<NLUContext | undefined> {
+    if (context?.projectContext || this.projectDir === false) {
+      return context;
+    }
+
+    const detected = await detectProjectContext(this.projectDir ?? process.cwd(), context)();
+    return isRight(detected) ? detected.right : context;
+  }
+
+  /**
+   * Загружает агентов из .claude/agents и .vibe-agents.json из директории проекта
+   * один раз за жизнь плагина. Агенты идут первыми: конфиг может ссылаться на них
+   */
+  loadProjectConfig(): TaskEither<Error, ProjectConfig | null> {
+    return () => {
+      if (this.projectDir === false) {
+        return Promise.resolve(right(null));
+      }
+
+      const dir = this.projectDir ?? process.cwd();
+      this.projectConfig ??= pipe(
+        setupProjectAgents(dir, this.registry),
+        chain(() => setupProjectConfig(dir))
+      )();
+      return this.projectConfig;
     };
   }
 
+  /**
+   * Дописывает в .vibe-agents.json добавленные во время работы намерения, сущности,
+   * маршруты и компетенции; остальное содержимое файла сохраняется
+   */
+  exportProjectConfig(dir?: string): TaskEither<Error, string> {
+    return saveProjectConfig(dir ?? (this.projectDir || process.cwd()));
+  }
+
+  loadAgents(dir: string): TaskEither<Error, AgentDefinition[]> {
+    return this.registry.loadFromDirectory(dir);
+  }
+
   getStatus() {
     return {
       version: '2.0.60',
-      agents: 21,
+      agents: this.registry.size(),
+      agentIds: this.registry.list().map(agent => agent.id),
       ready: true
     };
   }
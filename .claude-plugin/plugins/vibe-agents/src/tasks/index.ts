@@ -0,0 +1,8 @@
+/**
+ * 📋 Tasks
+ * Persistent task queue behind /task
+ */
+
+export * from './types';
+export * from './task-store';
+export * from './task-manager';
@@ -0,0 +1,324 @@
+/**
+ * 📋 Task Manager
+ * Очередь задач /task: идентификаторы, сохранение переходов, отмена и возобновление
+ */
+
+import { randomUUID } from 'node:crypto';
+import { Either, isLeft, isRight, left, right } from 'fp-ts/lib/Either';
+import { NLUContext } from '../nlu/types';
+import { StepResult, TaskExecutionResult } from '../pipeline/types';
+import { createTaskStore } from './task-store';
+import {
+  StepProgress,
+  SubmitOptions,
+  TaskManager,
+  TaskManagerOptions,
+  TaskRecord,
+  TaskStatus
+} from './types';
+
+export const DEFAULT_TASK_CONCURRENCY = 1;
+
+interface ActiveTask {
+  record: TaskRecord;
+  controller: AbortController;
+  // Контекст NLU живёт только в памяти: после перезапуска задача идёт по сохранённому маршруту
+  context?: NLUContext;
+  done: Promise<Either<Error, TaskRecord>>;
+  resolve: (result: Either<Error, TaskRecord>) => void;
+}
+
+const now = () => new Date().toISOString();
+
+const snapshot = (record: TaskRecord): TaskRecord => ({
+  ...record,
+  steps: record.steps.map(step => ({ ...step })),
+  transitions: [...record.transitions]
+});
+
+const setStatus = (record: TaskRecord, status: TaskStatus, message?: string) => {
+  record.status = status;
+  record.transitions.push({ type: 'status', status, at: now(), ...(message ? { message } : {}) });
+};
+
+/**
+ * Прогресс шага заменяет прежний; переход записывается, только если статус изменился
+ */
+const setStep = (record: TaskRecord, progress: StepProgress) => {
+  const index = record.steps.findIndex(s => s.stepId === progress.stepId);
+  const previous = index >= 0 ? record.steps[index] : undefined;
+
+  if (index >= 0) {
+    record.steps[index] = progress;
+  } else {
+    record.steps.push(progress);
+  }
+
+  if (previous?.status !== progress.status) {
+    record.transitions.push({
+      type: 'step',
+      stepId: progress.stepId,
+      agentId: progress.agentId,
+      status: progress.status,
+      at: now()
+    });
+  }
+};
+
+const completedSteps = (record: TaskRecord): StepResult[] => {
+  return record.steps
+    .filter(step => step.status === 'completed')
+    .map(step => ({ ...step, status: 'completed', durationMs: step.durationMs ?? 0 }));
+};
+
+export const createTaskManager = (options: TaskManagerOptions): TaskManager => {
+  const store = options.store ?? createTaskStore(options.dir);
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_TASK_CONCURRENCY);
+  const active = new Map<string, ActiveTask>();
+  const queue: string[] = [];
+  let running = 0;
+
+  // Записи идут по одной: файл задачи всегда отражает последний переход
+  let writes: Promise<unknown> = Promise.resolve();
+
+  const persist = (record: TaskRecord): Promise<Either<Error, TaskRecord>> => {
+    record.updatedAt = now();
+    const copy = snapshot(record);
+    const write = writes.then(() => store.save(copy)());
+    writes = write;
+    return write;
+  };
+
+  const enqueue = (record: TaskRecord, context?: NLUContext) => {
+    let resolve!: ActiveTask['resolve'];
+    const done = new Promise<Either<Error, TaskRecord>>((r) => {
+      resolve = r;
+    });
+
+    active.set(record.taskId, { record, controller: new AbortController(), context, done, resolve });
+    queue.push(record.taskId);
+    pump();
+  };
+
+  const pump = () => {
+    while (running < concurrency && queue.length > 0) {
+      void start(active.get(queue.shift()!)!);
+    }
+  };
+
+  const start = async (entry: ActiveTask) => {
+    const { record } = entry;
+    running++;
+    record.startedAt = now();
+    setStatus(record, 'running');
+    void persist(record);
+
+    let result: TaskExecutionResult | undefined;
+    let failure: string | undefined;
+
+    try {
+      result = await options.run({
+        task: record.task,
+        taskId: record.taskId,
+        signal: entry.controller.signal,
+        context: entry.context,
+        route: record.route,
+        completed: completedSteps(record),
+        onRoute: (route) => {
+          record.route = route;
+          void persist(record);
+        },
+        onStepStarted: (step) => {
+          setStep(record, {
+            stepId: step.id,
+            agentId: step.agentId,
+            stage: step.stage ?? step.id,
+            status: 'running',
+            dependsOn: step.dependsOn ?? [],
+            startedAt: now()
+          });
+          void persist(record);
+        },
+        onStepFinished: (step) => {
+          setStep(record, step);
+          void persist(record);
+        }
+      });
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    // Итог шагов из результата: пропущенные и отменённые шаги не проходят через onStepFinished
+    for (const step of result?.steps ?? []) {
+      setStep(record, step);
+    }
+
+    record.route = result?.route ?? record.route;
+    record.plan = result?.plan ?? record.plan;
+    record.error = failure ?? result?.error;
+    record.userMessage = result?.userMessage;
+    record.traceId = result?.traceId;
+    record.finishedAt = now();
+    setStatus(record, result?.status ?? 'failed');
+
+    const saved = await persist(record);
+    active.delete(record.taskId);
+    running--;
+    entry.resolve(saved);
+    pump();
+  };
+
+  const submit = (task: string, submitOptions: SubmitOptions = {}) => async () => {
+    const taskId = submitOptions.taskId ?? randomUUID();
+
+    if (active.has(taskId) || isRight(await store.load(taskId)())) {
+      return left(new Error('Task already exists: ' + taskId));
+    }
+
+    const createdAt = now();
+    const record: TaskRecord = {
+      taskId,
+      task,
+      status: 'queued',
+      attempt: 1,
+      createdAt,
+      updatedAt: createdAt,
+      steps: [],
+      transitions: []
+    };
+    setStatus(record, 'queued');
+
+    const saved = await persist(record);
+    if (isLeft(saved)) {
+      return saved;
+    }
+
+    const queued = snapshot(record);
+    enqueue(record, submitOptions.context);
+    return right(queued);
+  };
+
+  const cancel = (taskId: string) => async (): Promise<Either<Error, TaskRecord>> => {
+    const entry = active.get(taskId);
+
+    if (entry && entry.record.status === 'queued') {
+      queue.splice(queue.indexOf(taskId), 1);
+      active.delete(taskId);
+      entry.record.finishedAt = now();
+      setStatus(entry.record, 'cancelled');
+      const saved = await persist(entry.record);
+      entry.resolve(saved);
+      return saved;
+    }
+
+    // Выполняющаяся задача останавливается сигналом и сама записывает статус cancelled
+    if (entry) {
+      entry.controller.abort();
+      return entry.done;
+    }
+
+    const stored = await store.load(taskId)();
+    if (isLeft(stored)) {
+      return stored;
+    }
+
+    const record = stored.right;
+    if (record.status !== 'queued' && record.status !== 'running') {
+      return left(new Error(`Task ${taskId} is already ${record.status}`));
+    }
+
+    // Задачу оставил прерванный процесс: выполнять её некому, достаточно записать отмену
+    record.finishedAt = now();
+    setStatus(record, 'cancelled', 'interrupted task cancelled');
+    return persist(record);
+  };
+
+  const resume = (taskId: string, context?: NLUContext) => async (): Promise<Either<Error, TaskRecord>> => {
+    if (active.has(taskId)) {
+      return left(new Error('Task is already active: ' + taskId));
+    }
+
+    const stored = await store.load(taskId)();
+    if (isLeft(stored)) {
+      return stored;
+    }
+
+    const record = stored.right;
+    if (record.status === 'completed') {
+      return left(new Error('Task is already completed: ' + taskId));
+    }
+
+    // Незавершённые шаги выполняются заново; завершённые передаются планировщику как есть
+    const completed = record.steps.filter(step => step.status === 'completed');
+    const resumed: TaskRecord = {
+      ...record,
+      attempt: record.attempt + 1,
+      steps: completed,
+      finishedAt: undefined,
+      error: undefined,
+      userMessage: undefined
+    };
+    setStatus(resumed, 'queued', `resumed after ${completed.length} completed steps`);
+
+    const saved = await persist(resumed);
+    if (isLeft(saved)) {
+      return saved;
+    }
+
+    const queued = snapshot(resumed);
+    enqueue(resumed, context);
+    return right(queued);
+  };
+
+  const recover = () => async (): Promise<Either<Error, TaskRecord[]>> => {
+    const stored = await store.list()();
+    if (isLeft(stored)) {
+      return stored;
+    }
+
+    const resumed: TaskRecord[] = [];
+    for (const record of stored.right) {
+      if ((record.status === 'queued' || record.status === 'running') && !active.has(record.taskId)) {
+        const result = await resume(record.taskId)();
+        if (isLeft(result)) {
+          return result;
+        }
+        resumed.push(result.right);
+      }
+    }
+
+    return right(resumed);
+  };
+
+  return {
+    submit,
+    cancel,
+    resume,
+    recover,
+
+    get: (taskId: string) => async () => {
+      const entry = active.get(taskId);
+      return entry ? right(snapshot(entry.record)) : store.load(taskId)();
+    },
+
+    list: (status?: TaskStatus) => async () => {
+      const stored = await store.list()();
+      if (isLeft(stored)) {
+        return stored;
+      }
+
+      // Активные задачи берутся из памяти: запись на диск может отставать
+      const records = stored.right.map(record => {
+        const entry = active.get(record.taskId);
+        return entry ? snapshot(entry.record) : record;
+      });
+
+      return right(records.filter(record => !status || record.status === status));
+    },
+
+    wait: (taskId: string) => async () => {
+      const entry = active.get(taskId);
+      return entry ? entry.done : store.load(taskId)();
+    }
+  };
+};
@@ -0,0 +1,123 @@
+/**
+ * 💾 Task Store
+ * Состояние каждой задачи в отдельном JSON-файле: переживает перезапуск процесса
+ */
+
+import { mkdir, readdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { z } from 'zod';
+import { tryCatch } from 'fp-ts/lib/TaskEither';
+import { TaskRecord, TaskStore } from './types';
+
+export const DEFAULT_TASKS_DIR = join(homedir(), '.vibe-agents', 'tasks');
+
+const TaskStatusSchema = z.enum(['queued', 'running', 'completed', 'dry-run', 'failed', 'cancelled']);
+const StepProgressStatusSchema = z.enum(['running', 'completed', 'planned', 'failed', 'skipped', 'cancelled']);
+
+// Маршрут и вывод шагов не проверяются: их форма задаётся NLU и исполнителем
+const TaskRecordSchema = z.object({
+  taskId: z.string().min(1),
+  task: z.string(),
+  status: TaskStatusSchema,
+  attempt: z.number().int().positive(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  startedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+  route: z.any().optional(),
+  plan: z.string().optional(),
+  steps: z.array(z.object({
+    stepId: z.string(),
+    agentId: z.string(),
+    stage: z.string(),
+    status: StepProgressStatusSchema,
+    dependsOn: z.array(z.string()).default([]),
+    output: z.any().optional(),
+    error: z.string().optional(),
+    startedAt: z.string().optional(),
+    durationMs: z.number().optional(),
+    review: z.any().optional()
+  })).default([]),
+  transitions: z.array(z.union([
+    z.object({ type: z.literal('status'), status: TaskStatusSchema, at: z.string(), message: z.string().optional() }),
+    z.object({ type: z.literal('step'), stepId: z.string(), agentId: z.string(), status: StepProgressStatusSchema, at: z.string() })
+  ])).default([]),
+  error: z.string().optional(),
+  userMessage: z.string().optional(),
+  traceId: z.string().optional()
+});
+
+/**
+ * Имя файла из идентификатора задачи: без разделителей пути и спецсимволов
+ */
+const taskFile = (dir: string, taskId: string): string => {
+  return join(dir, taskId.replace(/[^A-Za-z0-9_-]+/g, '_').slice(0, 128) + '.json');
+};
+
+const parseRecord = (raw: string, source: string): TaskRecord => {
+  const parsed = TaskRecordSchema.safeParse(JSON.parse(raw));
+  if (!parsed.success) {
+    throw new Error(`Invalid task file ${source}: ${parsed.error.message}`);
+  }
+  return parsed.data as TaskRecord;
+};
+
+export const createTaskStore = (dir: string = DEFAULT_TASKS_DIR): TaskStore => ({
+  load: (taskId: string) => {
+    return tryCatch(
+      async () => {
+        let raw: string;
+        try {
+          raw = await readFile(taskFile(dir, taskId), 'utf-8');
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            throw new Error('Unknown task: ' + taskId);
+          }
+          throw error;
+        }
+
+        return parseRecord(raw, taskId);
+      },
+      (error) => error instanceof Error ? error : new Error('Task loading error: ' + error)
+    );
+  },
+
+  save: (record: TaskRecord) => {
+    return tryCatch(
+      async () => {
+        const file = taskFile(dir, record.taskId);
+        await mkdir(dir, { recursive: true });
+        // Запись через временный файл: падение процесса не оставит половину JSON
+        await writeFile(file + '.tmp', JSON.stringify(record, null, 2) + '\n', 'utf-8');
+        await rename(file + '.tmp', file);
+        return record;
+      },
+      (error) => error instanceof Error ? error : new Error('Task saving error: ' + error)
+    );
+  },
+
+  list: () => {
+    return tryCatch(
+      async () => {
+        let files: string[];
+        try {
+          files = (await readdir(dir)).filter(f => f.endsWith('.json'));
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return [];
+          }
+          throw error;
+        }
+
+        const records: TaskRecord[] = [];
+        for (const file of files) {
+          records.push(parseRecord(await readFile(join(dir, file), 'utf-8'), file));
+        }
+
+        return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      },
+      (error) => error instanceof Error ? error : new Error('Task listing error: ' + error)
+    );
+  }
+});
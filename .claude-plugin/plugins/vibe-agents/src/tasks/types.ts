@@ -0,0 +1,82 @@
+/**
+ * 📋 Task Manager Type Definitions
+ */
+
+import { TaskEither } from 'fp-ts/lib/TaskEither';
+import { AgentRoute, NLUContext } from '../nlu/types';
+import { StepResult, StepStatus, TaskExecutionResult, TaskRunOptions } from '../pipeline/types';
+
+export type TaskStatus = 'queued' | 'running' | 'completed' | 'dry-run' | 'failed' | 'cancelled';
+
+export type StepProgressStatus = 'running' | StepStatus;
+
+export interface StepProgress extends Omit<StepResult, 'status' | 'durationMs'> {
+  status: StepProgressStatus;
+  durationMs?: number;
+}
+
+export type TaskTransition =
+  | { type: 'status'; status: TaskStatus; at: string; message?: string }
+  | { type: 'step'; stepId: string; agentId: string; status: StepProgressStatus; at: string };
+
+export interface TaskRecord {
+  taskId: string;
+  task: string;
+  status: TaskStatus;
+  // Номер запуска: растёт при каждом возобновлении
+  attempt: number;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  // Сохраняется после NLU: возобновлённая задача не разбирается повторно
+  route?: AgentRoute;
+  plan?: string;
+  steps: StepProgress[];
+  transitions: TaskTransition[];
+  error?: string;
+  userMessage?: string;
+  traceId?: string;
+}
+
+export interface TaskRunRequest extends TaskRunOptions {
+  task: string;
+  taskId: string;
+  signal: AbortSignal;
+  context?: NLUContext;
+}
+
+export type TaskRunner = (request: TaskRunRequest) => Promise<TaskExecutionResult>;
+
+export interface TaskStore {
+  load: (taskId: string) => TaskEither<Error, TaskRecord>;
+  save: (record: TaskRecord) => TaskEither<Error, TaskRecord>;
+  list: () => TaskEither<Error, TaskRecord[]>;
+}
+
+export interface SubmitOptions {
+  taskId?: string;
+  context?: NLUContext;
+}
+
+export interface TaskManagerOptions {
+  run: TaskRunner;
+  store?: TaskStore;
+  // Директория хранилища, если store не передан
+  dir?: string;
+  // Сколько задач выполняется одновременно; остальные ждут в очереди
+  concurrency?: number;
+}
+
+export interface TaskManager {
+  submit: (task: string, options?: SubmitOptions) => TaskEither<Error, TaskRecord>;
+  cancel: (taskId: string) => TaskEither<Error, TaskRecord>;
+  // Продолжает прерванную, упавшую или отменённую задачу с последнего завершённого шага
+  resume: (taskId: string, context?: NLUContext) => TaskEither<Error, TaskRecord>;
+  // Возобновляет задачи, которые прошлый процесс оставил в queued или running
+  recover: () => TaskEither<Error, TaskRecord[]>;
+  get: (taskId: string) => TaskEither<Error, TaskRecord>;
+  list: (status?: TaskStatus) => TaskEither<Error, TaskRecord[]>;
+  // Ждёт завершения задачи: completed, failed или cancelled
+  wait: (taskId: string) => TaskEither<Error, TaskRecord>;
+}
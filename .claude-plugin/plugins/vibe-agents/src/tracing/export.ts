@@ -0,0 +1,91 @@
+/**
+ * 📤 Trace Export
+ * JSONL и OTLP/JSON (OpenTelemetry) для локального коллектора
+ */
+
+import { appendFile, writeFile } from 'node:fs/promises';
+import { TaskEither, tryCatch } from 'fp-ts/lib/TaskEither';
+import { Span, SpanAttributeValue } from './types';
+
+const SERVICE_NAME = 'vibe-agents';
+const SCOPE_NAME = 'vibe-agents';
+
+// OTLP: SPAN_KIND_INTERNAL, STATUS_CODE_OK / STATUS_CODE_ERROR
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_CODE_UNSET = 0;
+const STATUS_CODE_OK = 1;
+const STATUS_CODE_ERROR = 2;
+
+export const toJSONL = (spans: Span[]): string => {
+  return spans.map(span => JSON.stringify(span)).join('\n') + (spans.length > 0 ? '\n' : '');
+};
+
+/**
+ * Тело запроса ExportTraceServiceRequest (POST /v1/traces, Content-Type: application/json)
+ */
+export const toOTLP = (spans: Span[], serviceName: string = SERVICE_NAME) => {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: [{ key: 'service.name', value: { stringValue: serviceName } }]
+        },
+        scopeSpans: [
+          {
+            scope: { name: SCOPE_NAME },
+            spans: spans.map(span => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+              name: span.name,
+              kind: SPAN_KIND_INTERNAL,
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+              attributes: Object.entries(span.attributes).map(([key, value]) => ({ key, value: toAnyValue(value) })),
+              status: {
+                code: span.status === 'error' ? STATUS_CODE_ERROR : span.status === 'ok' ? STATUS_CODE_OK : STATUS_CODE_UNSET,
+                ...(span.error ? { message: span.error } : {})
+              }
+            }))
+          }
+        ]
+      }
+    ]
+  };
+};
+
+export const writeJSONL = (file: string, spans: Span[]): TaskEither<Error, string> => {
+  return tryCatch(
+    async () => {
+      await appendFile(file, toJSONL(spans), 'utf-8');
+      return file;
+    },
+    (error) => new Error('Trace export error: ' + (error instanceof Error ? error.message : error))
+  );
+};
+
+export const writeOTLP = (file: string, spans: Span[], serviceName?: string): TaskEither<Error, string> => {
+  return tryCatch(
+    async () => {
+      await writeFile(file, JSON.stringify(toOTLP(spans, serviceName), null, 2) + '\n', 'utf-8');
+      return file;
+    },
+    (error) => new Error('Trace export error: ' + (error instanceof Error ? error.message : error))
+  );
+};
+
+const toUnixNano = (iso: string): string => {
+  return (BigInt(Date.parse(iso)) * 1_000_000n).toString();
+};
+
+const toAnyValue = (value: SpanAttributeValue) => {
+  if (typeof value === 'boolean') {
+    return { boolValue: value };
+  }
+
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+
+  return { stringValue: value };
+};
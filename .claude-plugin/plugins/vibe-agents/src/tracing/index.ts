@@ -0,0 +1,8 @@
+/**
+ * 🛰️ Tracing
+ * Spans, events and exporters for task observability
+ */
+
+export * from './types';
+export * from './tracer';
+export * from './export';
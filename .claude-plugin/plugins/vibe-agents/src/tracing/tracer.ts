@@ -0,0 +1,149 @@
+/**
+ * 🛰️ Tracer
+ * Spans for NLU and agent steps: durations, tokens, model, confidence, errors
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { EventEmitter } from 'node:events';
+import { randomBytes } from 'node:crypto';
+import { TaskEither } from 'fp-ts/lib/TaskEither';
+import { isLeft } from 'fp-ts/lib/Either';
+import { Span, SpanAttributes, SpanAttributeValue, SpanEvent, TracerOptions } from './types';
+
+const DEFAULT_MAX_SPANS = 1000;
+
+export interface ActiveSpan {
+  span: Span;
+  setAttributes: (attributes: SpanAttributes) => void;
+  end: (error?: Error | string) => Span;
+}
+
+export interface Tracer {
+  events: EventEmitter;
+  // Родитель — спан, внутри которого выполняется код (AsyncLocalStorage)
+  startSpan: (name: string, attributes?: SpanAttributes) => ActiveSpan;
+  trace: <E extends Error, A>(
+    name: string,
+    attributes: SpanAttributes,
+    task: TaskEither<E, A>,
+    describe?: (value: A) => SpanAttributes
+  ) => TaskEither<E, A>;
+  run: <T>(span: ActiveSpan, fn: () => Promise<T>) => Promise<T>;
+  on: (event: SpanEvent, listener: (span: Span) => void) => () => void;
+  spans: (traceId?: string) => Span[];
+  clear: () => void;
+}
+
+export const createTracer = (options: TracerOptions = {}): Tracer => {
+  const maxSpans = options.maxSpans ?? DEFAULT_MAX_SPANS;
+  const events = new EventEmitter();
+  const storage = new AsyncLocalStorage<Span>();
+  const finished: Span[] = [];
+
+  const startSpan = (name: string, attributes: SpanAttributes = {}): ActiveSpan => {
+    const parent = storage.getStore();
+    const startedAt = Date.now();
+    const span: Span = {
+      traceId: parent?.traceId ?? randomId(16),
+      spanId: randomId(8),
+      parentSpanId: parent?.spanId,
+      name,
+      startTime: new Date(startedAt).toISOString(),
+      status: 'running',
+      attributes: compact(attributes)
+    };
+
+    events.emit('span:start', span);
+
+    return {
+      span,
+
+      setAttributes: (extra: SpanAttributes) => {
+        Object.assign(span.attributes, compact(extra));
+      },
+
+      end: (error?: Error | string) => {
+        if (span.status !== 'running') {
+          return span;
+        }
+
+        span.endTime = new Date().toISOString();
+        span.durationMs = Date.now() - startedAt;
+        span.status = error ? 'error' : 'ok';
+
+        if (error) {
+          span.error = typeof error === 'string' ? error : error.message;
+          const kind = typeof error === 'string' ? undefined : (error as Error & { kind?: string }).kind;
+          if (kind) {
+            span.attributes['error.kind'] = kind;
+          }
+        }
+
+        finished.push(span);
+        if (finished.length > maxSpans) {
+          finished.splice(0, finished.length - maxSpans);
+        }
+
+        events.emit('span:end', span);
+        return span;
+      }
+    };
+  };
+
+  const run = <T>(active: ActiveSpan, fn: () => Promise<T>): Promise<T> => {
+    return storage.run(active.span, fn);
+  };
+
+  return {
+    events,
+    startSpan,
+    run,
+
+    trace: (name, attributes, task, describe) => async () => {
+      const active = startSpan(name, attributes);
+
+      try {
+        const result = await run(active, () => task());
+
+        if (isLeft(result)) {
+          active.end(result.left);
+        } else {
+          active.setAttributes(describe?.(result.right) ?? {});
+          active.end();
+        }
+
+        return result;
+      } catch (error) {
+        active.end(error instanceof Error ? error : String(error));
+        throw error;
+      }
+    },
+
+    on: (event: SpanEvent, listener: (span: Span) => void) => {
+      events.on(event, listener);
+      return () => {
+        events.off(event, listener);
+      };
+    },
+
+    spans: (traceId?: string) => {
+      return traceId ? finished.filter(s => s.traceId === traceId) : [...finished];
+    },
+
+    clear: () => {
+      finished.length = 0;
+    }
+  };
+};
+
+const randomId = (bytes: number): string => {
+  return randomBytes(bytes).toString('hex');
+};
+
+const compact = (attributes: SpanAttributes): Record<string, SpanAttributeValue> => {
+  return Object.fromEntries(
+    Object.entries(attributes).filter((entry): entry is [string, SpanAttributeValue] => entry[1] !== undefined)
+  );
+};
+
+export const tracer = createTracer();
@@ -0,0 +1,29 @@
+/**
+ * 🛰️ Tracing Types
+ */
+
+export type SpanAttributeValue = string | number | boolean;
+
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+export type SpanStatus = 'running' | 'ok' | 'error';
+
+export interface Span {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  startTime: string;
+  endTime?: string;
+  durationMs?: number;
+  status: SpanStatus;
+  attributes: Record<string, SpanAttributeValue>;
+  error?: string;
+}
+
+export type SpanEvent = 'span:start' | 'span:end';
+
+export interface TracerOptions {
+  // Сколько завершённых спанов хранится в памяти для экспорта
+  maxSpans?: number;
+}